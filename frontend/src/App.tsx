@@ -1,50 +1,55 @@
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
-import { GoogleOAuthProvider } from "@react-oauth/google";
 
 import { MainLayout } from "./components/layout/MainLayout";
 import { ChatPage } from "./pages/ChatPage";
+import { TrashPage } from "./pages/TrashPage";
+import { SettingsPage } from "./pages/SettingsPage";
 import { SearchModal } from "@/components/search/SearchModal";
+import { ImportDialog } from "@/components/import/ImportDialog";
 import { LoginPage } from "@/pages/LoginPage";
+import { AuthCallbackPage } from "@/pages/AuthCallbackPage";
+import { OIDC_CALLBACK_PATH } from "@/lib/auth";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { LocalChatsDialog } from "@/components/auth/LocalChatsDialog";
 
 export default function App() {
   return (
-    // <GoogleOAuthProvider
-    //   clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID}
-    //   onScriptLoadSuccess={() => {
-    //     (window as any).google?.accounts.id.disableAutoSelect();
-    //     (window as any).google?.accounts.id.cancel();
-    //   }}
-    // >
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
+      <BrowserRouter>
+        <Routes>
+          {/* Public routes */}
+          <Route path="/login" element={<LoginPage />} />
+          <Route path={OIDC_CALLBACK_PATH} element={<AuthCallbackPage />} />
 
-      <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-        <BrowserRouter>
-          <Routes>
-            {/* Public route */}
-            {/* <Route path="/login" element={<LoginPage />} /> */}
+          {/* Protected routes */}
+          <Route
+            path="/*"
+            element={
+              <ProtectedRoute>
+                <MainLayout>
+                  <Routes>
+                    <Route path="/" element={<ChatPage />} />
+                    <Route path="/c/:chatId" element={<ChatPage />} />
+                    <Route path="/trash" element={<TrashPage />} />
+                    <Route path="/settings" element={<SettingsPage />} />
+                    <Route path="*" element={<Navigate to="/" replace />} />
+                  </Routes>
 
-            {/* Protected routes */}
-            <Route
-              path="/*"
-              element={
-                // <ProtectedRoute>
-                  <MainLayout>
-                    <Routes>
-                      <Route path="/" element={<ChatPage />} />
-                      <Route path="/c/:chatId" element={<ChatPage />} />
-                      <Route path="*" element={<Navigate to="/" replace />} />
-                    </Routes>
+                  {/* Global Search Modal */}
+                  <SearchModal />
 
-                    {/* Global Search Modal */}
-                    <SearchModal />
-                  </MainLayout>
-                // </ProtectedRoute>
-              }
-            />
-          </Routes>
-        </BrowserRouter>
-      </ThemeProvider>
-    // </GoogleOAuthProvider>
+                  {/* Chat import */}
+                  <ImportDialog />
+
+                  {/* Offer to move guest chats after sign-in */}
+                  <LocalChatsDialog />
+                </MainLayout>
+              </ProtectedRoute>
+            }
+          />
+        </Routes>
+      </BrowserRouter>
+    </ThemeProvider>
   );
 }
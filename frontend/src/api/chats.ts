@@ -0,0 +1,57 @@
+/**
+ * chats.ts
+ * ----------------
+ * REST calls of the chat sync API (see `docs/api.md`).
+ *
+ * Creation and message writes are PUTs keyed by client-generated ids,
+ * so every call can be retried safely.
+ */
+import { api } from "./client";
+import type { ChatDto, ChatPatch, MessageDto, Page } from "./types";
+
+export const MESSAGE_PAGE_SIZE = 100;
+
+export async function listChats(): Promise<ChatDto[]> {
+  const chats: ChatDto[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const { data }: { data: Page<ChatDto> } = await api.get("/chats", {
+      params: { cursor: cursor ?? undefined },
+    });
+    chats.push(...data.items);
+    cursor = data.nextCursor;
+  } while (cursor);
+
+  return chats;
+}
+
+export async function createChat(chat: Omit<ChatDto, "updatedAt">) {
+  const { data } = await api.put<ChatDto>(`/chats/${chat.id}`, chat);
+  return data;
+}
+
+export async function updateChat(id: string, patch: ChatPatch) {
+  const { data } = await api.patch<ChatDto>(`/chats/${id}`, patch);
+  return data;
+}
+
+export async function deleteChat(id: string) {
+  await api.delete(`/chats/${id}`);
+}
+
+export async function listMessages(chatId: string, cursor?: string | null) {
+  const { data } = await api.get<Page<MessageDto>>(
+    `/chats/${chatId}/messages`,
+    { params: { cursor: cursor ?? undefined, limit: MESSAGE_PAGE_SIZE } }
+  );
+  return data;
+}
+
+export async function putMessage(message: MessageDto) {
+  const { data } = await api.put<MessageDto>(
+    `/chats/${message.chatId}/messages/${message.id}`,
+    message
+  );
+  return data;
+}
@@ -0,0 +1,84 @@
+/**
+ * client.ts
+ * ----------------
+ * Shared axios instance for every HTTP call the app makes: the chat sync
+ * API and model providers.
+ *
+ * Responsibilities:
+ * - Point requests at `VITE_API_BASE_URL`
+ * - Fall back to the in-browser mock server when no backend is configured,
+ *   so sync works out of the box during development
+ * - Send the signed-in user's token (`useAuthStore.token`) as a bearer
+ *   token to our own API. Other hosts (model servers) never see it.
+ * - On a 401 from our API, renew the session once and replay the
+ *   request; if that fails, log out. Unsent messages stay in the
+ *   account's outbox and the composer keeps its draft.
+ * - Reject with typed errors (`api/errors`) instead of AxiosErrors; a
+ *   401 or 403 from another host means a bad API key, not a session
+ */
+import axios, { type InternalAxiosRequestConfig } from "axios";
+import { refreshSession, useAuthStore } from "@/store/useAuthStore";
+import { toApiError } from "./errors";
+import { mockAdapter } from "./mockServer";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Set on the replay after a 401, so it isn't retried again
+    authRetried?: boolean;
+  }
+}
+
+const baseURL = import.meta.env.VITE_API_BASE_URL as string | undefined;
+
+export const isMockApi = !baseURL;
+
+export const api = axios.create({
+  baseURL: baseURL || "/api",
+  timeout: 15_000,
+  headers: { "Content-Type": "application/json" },
+  adapter: isMockApi ? mockAdapter : undefined,
+});
+
+const apiRoot = new URL(api.defaults.baseURL ?? "/", window.location.href)
+  .href;
+// Path boundary, so e.g. `/apiary` isn't taken for `/api`
+const apiPrefix = apiRoot.endsWith("/") ? apiRoot : `${apiRoot}/`;
+
+// Whether the request goes to our API rather than some other host
+function isOwnApi(config: InternalAxiosRequestConfig) {
+  const url = new URL(api.getUri(config), window.location.href).href;
+  return url === apiRoot || url.startsWith(apiPrefix);
+}
+
+api.interceptors.request.use((config) => {
+  const { token } = useAuthStore.getState();
+  // An explicit Authorization (a provider's API key) wins
+  if (token && isOwnApi(config) && !config.headers.has("Authorization")) {
+    config.headers.set("Authorization", `Bearer ${token}`);
+  }
+  return config;
+});
+
+api.interceptors.response.use(undefined, async (error: unknown) => {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) throw error;
+
+  const config = error.config;
+  if (
+    error.response?.status === 401 &&
+    config &&
+    isOwnApi(config) &&
+    !config.authRetried &&
+    useAuthStore.getState().token
+  ) {
+    const token = await refreshSession();
+    if (token) {
+      config.authRetried = true;
+      config.headers.set("Authorization", `Bearer ${token}`);
+      return api.request(config);
+    }
+    // Concurrent 401s share the refresh; only the first logs out
+    if (useAuthStore.getState().token) useAuthStore.getState().logout();
+  }
+
+  throw await toApiError(error, !!config && isOwnApi(config));
+});
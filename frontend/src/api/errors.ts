@@ -0,0 +1,157 @@
+/**
+ * errors.ts
+ * ----------------
+ * Typed errors for failed HTTP requests made through `api/client`.
+ *
+ * Every failed request rejects with an `ApiError` (or one of its
+ * subclasses), never a raw AxiosError, so callers and the UI can react
+ * to the kind of failure with `instanceof` and show `message` as is.
+ * Cancelled requests still reject with axios' `CanceledError`.
+ */
+import { AxiosError } from "axios";
+
+export class ApiError extends Error {
+  // HTTP status; undefined when no response arrived
+  status?: number;
+
+  constructor(message: string, status?: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// No response at all: offline, DNS, refused connection or timeout
+export class NetworkError extends ApiError {
+  name = "NetworkError";
+}
+
+// 401 that signing in again silently couldn't fix
+export class UnauthorizedError extends ApiError {
+  name = "UnauthorizedError";
+}
+
+// 403: signed in, but not allowed to do this
+export class ForbiddenError extends ApiError {
+  name = "ForbiddenError";
+}
+
+// 401/403 from a model provider: its API key is wrong or lacks access
+export class InvalidApiKeyError extends ApiError {
+  name = "InvalidApiKeyError";
+}
+
+// 429: throttled; retry no sooner than `retryAfterMs` when the server says
+export class RateLimitError extends ApiError {
+  name = "RateLimitError";
+  retryAfterMs?: number;
+}
+
+// 5xx: the server failed; usually worth retrying
+export class ServerError extends ApiError {
+  name = "ServerError";
+}
+
+/**
+ * The server's own explanation from an error body: `{ error: "..." }`,
+ * `{ error: { message } }` (OpenAI), `{ message }` or `{ detail }`.
+ * Streamed bodies are read first.
+ */
+async function reasonOf(data: unknown): Promise<string | undefined> {
+  if (data instanceof ReadableStream) {
+    data = await new Response(data).text().catch(() => undefined);
+  }
+  if (typeof data === "string") {
+    const text = data;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Not JSON: a plain-text (or HTML) error page
+      return text.trim().slice(0, 300) || undefined;
+    }
+  }
+  if (typeof data !== "object" || data === null) return undefined;
+
+  const body = data as Record<string, unknown>;
+  const error = body.error as { message?: unknown } | string | undefined;
+  const reason =
+    typeof error === "string"
+      ? error
+      : (error?.message ?? body.message ?? body.detail);
+  return typeof reason === "string" ? reason : undefined;
+}
+
+function parseRetryAfter(header: unknown) {
+  if (typeof header !== "string") return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * The typed error for a failed axios request. `ownApi`: whether it went
+ * to our API, where 401 and 403 are about the session rather than a
+ * provider's API key.
+ */
+export async function toApiError(
+  error: AxiosError,
+  ownApi: boolean
+): Promise<ApiError> {
+  const options = { cause: error };
+  const response = error.response;
+  if (!response) {
+    const timedOut =
+      error.code === AxiosError.ECONNABORTED ||
+      error.code === AxiosError.ETIMEDOUT;
+    return new NetworkError(
+      timedOut ? "The server took too long to respond" : "Can't reach the server",
+      undefined,
+      options
+    );
+  }
+
+  const { status } = response;
+  const reason = await reasonOf(response.data);
+  const withReason = (summary: string) =>
+    reason ? `${summary}: ${reason}` : summary;
+
+  if (!ownApi && (status === 401 || status === 403)) {
+    return new InvalidApiKeyError(
+      withReason("The API key was rejected; check it in Settings"),
+      status,
+      options
+    );
+  }
+  if (status === 401) {
+    return new UnauthorizedError(
+      withReason("Your session has expired"),
+      status,
+      options
+    );
+  }
+  if (status === 403) {
+    return new ForbiddenError(
+      withReason("You don't have permission to do that"),
+      status,
+      options
+    );
+  }
+  if (status === 429) {
+    const err = new RateLimitError(
+      withReason("Too many requests, slow down a little"),
+      status,
+      options
+    );
+    err.retryAfterMs = parseRetryAfter(response.headers["retry-after"]);
+    return err;
+  }
+  if (status >= 500) {
+    return new ServerError(
+      withReason(`The server had a problem (${status})`),
+      status,
+      options
+    );
+  }
+  return new ApiError(withReason(`Request failed (${status})`), status, options);
+}
@@ -0,0 +1,67 @@
+/**
+ * Conversions between store records and API payloads.
+ */
+import type { ChatSession } from "@/store/useChatListStore";
+import type { Message, MessageNode } from "@/types/chat";
+import type { ChatDto, MessageDto } from "./types";
+
+export function toChatDto(chat: ChatSession): Omit<ChatDto, "updatedAt"> {
+  return {
+    id: chat.id,
+    title: chat.title,
+    createdAt: chat.createdAt,
+    model: chat.model,
+    params: chat.params,
+    ...(chat.sourceId && { sourceId: chat.sourceId }),
+    deletedAt: chat.deletedAt ?? null,
+  };
+}
+
+export function fromChatDto(dto: ChatDto): ChatSession {
+  return {
+    id: dto.id,
+    title: dto.title,
+    createdAt: dto.createdAt,
+    model: dto.model,
+    params: dto.params,
+    ...(dto.sourceId && { sourceId: dto.sourceId }),
+    ...(dto.deletedAt && { deletedAt: dto.deletedAt }),
+    syncedAt: dto.updatedAt,
+  };
+}
+
+export function toMessageDto(chatId: string, node: MessageNode): MessageDto {
+  return {
+    id: node.id,
+    chatId,
+    parentId: node.parentId,
+    role: node.role,
+    content: node.content,
+    // When the message was first written: `timestamp` follows the selected
+    // version, and a later one must not sort it after its children.
+    // Imported from the old localStorage store, timestamps are strings
+    createdAt: new Date(
+      node.versions?.[0]?.timestamp ?? node.timestamp
+    ).toISOString(),
+    interrupted: node.interrupted,
+    attachments: node.attachments,
+    versions: node.versions,
+    versionIndex: node.versionIndex,
+  };
+}
+
+export function fromMessageDto(
+  dto: MessageDto
+): Message & { parentId: string | null } {
+  return {
+    id: dto.id,
+    parentId: dto.parentId,
+    role: dto.role,
+    content: dto.content,
+    timestamp: new Date(dto.createdAt),
+    interrupted: dto.interrupted,
+    attachments: dto.attachments,
+    versions: dto.versions,
+    versionIndex: dto.versionIndex,
+  };
+}
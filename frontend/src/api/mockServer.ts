@@ -0,0 +1,184 @@
+/**
+ * mockServer.ts
+ * ----------------
+ * In-browser implementation of the chat sync API (see `docs/api.md`),
+ * plugged into axios as an adapter when `VITE_API_BASE_URL` is unset.
+ *
+ * Responsibilities:
+ * - Serve the same routes, status codes and payloads as the real backend
+ * - Keep its "database" in localStorage so data survives reloads and is
+ *   shared between tabs, like a server would be; one per account, as a
+ *   real server scopes data to the signed-in user
+ * - Add a little latency and fail like a network error while the browser
+ *   is offline, so loading and retry paths get exercised
+ */
+import { AxiosError, type AxiosAdapter, type AxiosResponse } from "axios";
+import { scopedName } from "@/lib/namespace";
+import type { ChatDto, MessageDto, Page } from "./types";
+
+const DB_KEY = "mock-api-db";
+const LATENCY_MS = 150;
+const DEFAULT_LIMIT = 50;
+
+interface MockDb {
+  chats: Record<string, ChatDto>;
+  messages: Record<string, Record<string, MessageDto>>;
+}
+
+function load(): MockDb {
+  try {
+    const raw = localStorage.getItem(scopedName(DB_KEY));
+    if (raw) return JSON.parse(raw) as MockDb;
+  } catch {
+    // Corrupt data — start over like a fresh server
+  }
+  return { chats: {}, messages: {} };
+}
+
+function save(db: MockDb) {
+  localStorage.setItem(scopedName(DB_KEY), JSON.stringify(db));
+}
+
+/** Offset-based cursor: good enough for a single-user mock. */
+function paginate<T>(items: T[], cursor: unknown, limit: unknown): Page<T> {
+  const start = Number(cursor) || 0;
+  const size = Number(limit) || DEFAULT_LIMIT;
+  const end = start + size;
+
+  return {
+    items: items.slice(start, end),
+    nextCursor: end < items.length ? String(end) : null,
+  };
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type Params = Record<string, unknown>;
+
+function route(
+  method: string,
+  path: string,
+  params: Params,
+  body: unknown
+): { status: number; data?: unknown } {
+  const db = load();
+  const segments = path.split("/").filter(Boolean);
+
+  // /chats
+  if (segments.length === 1 && segments[0] === "chats") {
+    if (method !== "get") throw new HttpError(405, "Method not allowed");
+
+    const chats = Object.values(db.chats).sort(
+      (a, b) => b.createdAt - a.createdAt
+    );
+    return { status: 200, data: paginate(chats, params.cursor, params.limit) };
+  }
+
+  // /chats/:id
+  if (segments.length === 2 && segments[0] === "chats") {
+    const id = segments[1];
+    const existing = db.chats[id];
+
+    switch (method) {
+      case "put": {
+        const chat = { ...(body as ChatDto), id, updatedAt: Date.now() };
+        db.chats[id] = chat;
+        db.messages[id] ??= {};
+        save(db);
+        return { status: existing ? 200 : 201, data: chat };
+      }
+      case "patch": {
+        if (!existing) throw new HttpError(404, "Chat not found");
+        const chat = { ...existing, ...(body as object), id, updatedAt: Date.now() };
+        db.chats[id] = chat;
+        save(db);
+        return { status: 200, data: chat };
+      }
+      case "delete":
+        delete db.chats[id];
+        delete db.messages[id];
+        save(db);
+        return { status: 204 };
+      default:
+        throw new HttpError(405, "Method not allowed");
+    }
+  }
+
+  // /chats/:id/messages
+  if (segments.length === 3 && segments[2] === "messages") {
+    const chatId = segments[1];
+    if (!db.chats[chatId]) throw new HttpError(404, "Chat not found");
+    if (method !== "get") throw new HttpError(405, "Method not allowed");
+
+    const messages = Object.values(db.messages[chatId] ?? {}).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+    return {
+      status: 200,
+      data: paginate(messages, params.cursor, params.limit),
+    };
+  }
+
+  // /chats/:id/messages/:messageId
+  if (segments.length === 4 && segments[2] === "messages") {
+    const [, chatId, , id] = segments;
+    if (!db.chats[chatId]) throw new HttpError(404, "Chat not found");
+    if (method !== "put") throw new HttpError(405, "Method not allowed");
+
+    const existing = db.messages[chatId]?.[id];
+    const message = { ...(body as MessageDto), id, chatId };
+    db.messages[chatId] = { ...db.messages[chatId], [id]: message };
+    save(db);
+    return { status: existing ? 200 : 201, data: message };
+  }
+
+  throw new HttpError(404, "Not found");
+}
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+  if (!navigator.onLine) {
+    throw new AxiosError("Network Error", AxiosError.ERR_NETWORK, config);
+  }
+
+  const method = (config.method ?? "get").toLowerCase();
+  const path = new URL(config.url ?? "", "http://mock").pathname;
+  const body =
+    typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+
+  let result: { status: number; data?: unknown };
+  try {
+    result = route(method, path, config.params ?? {}, body);
+  } catch (err) {
+    if (!(err instanceof HttpError)) throw err;
+    result = { status: err.status, data: { error: err.message } };
+  }
+
+  const response: AxiosResponse = {
+    data: result.data ?? null,
+    status: result.status,
+    statusText: String(result.status),
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+  return response;
+};
@@ -0,0 +1,140 @@
+/**
+ * mutations.ts
+ * ----------------
+ * React Query mutations behind the queued sync operations.
+ *
+ * Responsibilities:
+ * - Send one outbox operation to the server
+ * - Update the cached chat list / message pages optimistically and roll
+ *   back if the request fails
+ * - Mark chats as synced once the server has confirmed them
+ *
+ * Every mutation of a chat shares one mutation scope, so its writes
+ * reach the server in the order they were made.
+ */
+import {
+  MutationObserver,
+  type InfiniteData,
+  type MutationObserverOptions,
+} from "@tanstack/react-query";
+import { useChatListStore } from "@/store/useChatListStore";
+import type { OutboxOp } from "@/store/useOutboxStore";
+import * as chatsApi from "./chats";
+import { chatKeys, queryClient } from "./queryClient";
+import type { ChatDto, MessageDto, Page } from "./types";
+
+export type SyncOp = Exclude<OutboxOp, { kind: "reply" }>;
+
+type MessagePages = InfiniteData<Page<MessageDto>, string | null>;
+
+function runMutation<TData, TContext>(
+  options: MutationObserverOptions<TData, Error, void, TContext>
+) {
+  return new MutationObserver(queryClient, options).mutate();
+}
+
+/* ---------- chats ---------- */
+
+function chatMutation<TData>(
+  op: SyncOp,
+  mutationFn: () => Promise<TData>,
+  optimistic: (chats: ChatDto[]) => ChatDto[]
+): MutationObserverOptions<TData, Error, void, { previous?: ChatDto[] }> {
+  const queryKey = chatKeys.list();
+
+  return {
+    mutationKey: [...queryKey, op.kind],
+    scope: { id: `chat:${op.chatId}` },
+    mutationFn,
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<ChatDto[]>(queryKey);
+      if (previous) queryClient.setQueryData(queryKey, optimistic(previous));
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+    onSuccess: () => {
+      if (op.kind === "deleteChat") return;
+      useChatListStore.getState().markChatSynced(op.chatId, Date.now());
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  };
+}
+
+/* ---------- messages ---------- */
+
+function putMessageMutation(
+  message: MessageDto
+): MutationObserverOptions<MessageDto, Error, void, { previous?: MessagePages }> {
+  const queryKey = chatKeys.messages(message.chatId);
+
+  return {
+    mutationKey: [...queryKey, "put"],
+    scope: { id: `chat:${message.chatId}` },
+    mutationFn: () => chatsApi.putMessage(message),
+    onMutate: async () => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<MessagePages>(queryKey);
+      if (!previous) return { previous };
+
+      const exists = previous.pages.some((p) =>
+        p.items.some((m) => m.id === message.id)
+      );
+      const pages = previous.pages.map((page, i) => ({
+        ...page,
+        items: exists
+          ? page.items.map((m) => (m.id === message.id ? message : m))
+          : i === previous.pages.length - 1
+            ? [...page.items, message]
+            : page.items,
+      }));
+
+      queryClient.setQueryData<MessagePages>(queryKey, { ...previous, pages });
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+    },
+  };
+}
+
+/**
+ * Sends one queued sync operation. Rejects with the request's error.
+ */
+export async function executeSyncOp(op: SyncOp): Promise<void> {
+  switch (op.kind) {
+    case "createChat":
+      await runMutation(
+        chatMutation(op, () => chatsApi.createChat(op.chat), (chats) => [
+          { ...op.chat, updatedAt: Date.now() },
+          ...chats.filter((c) => c.id !== op.chatId),
+        ])
+      );
+      return;
+
+    case "updateChat":
+      await runMutation(
+        chatMutation(op, () => chatsApi.updateChat(op.chatId, op.patch), (chats) =>
+          chats.map((c) =>
+            c.id === op.chatId ? { ...c, ...op.patch, updatedAt: Date.now() } : c
+          )
+        )
+      );
+      return;
+
+    case "deleteChat":
+      queryClient.removeQueries({ queryKey: chatKeys.messages(op.chatId) });
+      await runMutation(
+        chatMutation(op, () => chatsApi.deleteChat(op.chatId), (chats) =>
+          chats.filter((c) => c.id !== op.chatId)
+        )
+      );
+      return;
+
+    case "putMessage":
+      await runMutation(putMessageMutation(op.message));
+      return;
+  }
+}
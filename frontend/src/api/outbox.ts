@@ -0,0 +1,300 @@
+/**
+ * outbox.ts
+ * ----------------
+ * Runs the persistent outbox kept in `useOutboxStore`.
+ *
+ * Responsibilities:
+ * - Queue sync writes and model replies instead of sending them directly,
+ *   so nothing is lost while the backend or model server is unreachable
+ * - Run entries in order within a lane: one lane per chat for sync writes
+ *   and one for its replies, so a down backend never holds up a reply
+ * - Retry failures with exponential backoff; pause while offline and
+ *   start over as soon as the browser is back online
+ * - Give up after a few attempts until a manual retry, and say why
+ * - Derive the pending / failed / sent status shown on user messages
+ */
+import { replyTo } from "@/lib/generate";
+import {
+  useOutboxStore,
+  type OutboxEntry,
+  type OutboxOp,
+} from "@/store/useOutboxStore";
+import { useUIStore } from "@/store/useUIStore";
+import {
+  ApiError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+} from "./errors";
+import { executeSyncOp } from "./mutations";
+
+export type MessageStatus = "pending" | "failed" | "sent";
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 60_000;
+const MAX_ATTEMPTS = 6;
+
+// Entry ids currently running and the lanes they block
+const running = new Set<string>();
+const busyLanes = new Set<string>();
+// Set before a reply starts (it loads the chat before it streams), so
+// replies in other chats' lanes can't start and abort it
+let replyInFlight = false;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+// A reply that could not start or finish yet and should run again later
+class ReplyDeferredError extends Error {}
+
+function laneOf(op: OutboxOp) {
+  return op.kind === "reply" ? `reply:${op.chatId}` : `sync:${op.chatId}`;
+}
+
+function isRetryable(err: unknown) {
+  // No response at all (offline, timeout), throttled or a server fault
+  return (
+    err instanceof ReplyDeferredError ||
+    err instanceof NetworkError ||
+    err instanceof RateLimitError ||
+    err instanceof ServerError
+  );
+}
+
+function backoff(attempts: number, err: unknown) {
+  // Throttled requests wait at least as long as the server asked
+  if (err instanceof RateLimitError && err.retryAfterMs !== undefined) {
+    return Math.max(err.retryAfterMs, BASE_DELAY_MS);
+  }
+
+  const delay = Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+  // ±20% jitter so many clients don't retry in lockstep
+  return delay * (0.8 + Math.random() * 0.4);
+}
+
+async function execute(op: OutboxOp) {
+  if (op.kind !== "reply") return executeSyncOp(op);
+
+  const outcome = await replyTo(op.chatId, op.messageId, op.replyId);
+  // Provider errors are shown in the reply; only retry lost connections
+  // and chats another tab is streaming into
+  if (outcome === "unreachable") {
+    throw new ReplyDeferredError("Model server unreachable");
+  }
+  if (outcome === "busy") {
+    throw new ReplyDeferredError("Another tab is replying in this chat");
+  }
+}
+
+async function run(entry: OutboxEntry, lane: string) {
+  busyLanes.add(lane);
+  running.add(entry.id);
+  const isReply = entry.op.kind === "reply";
+  if (isReply) replyInFlight = true;
+
+  try {
+    await execute(entry.op);
+    useOutboxStore.getState().remove(entry.id);
+  } catch (err) {
+    const attempts = entry.attempts + 1;
+    const failed = !isRetryable(err) || attempts >= MAX_ATTEMPTS;
+    const error = err instanceof Error ? err.message : String(err);
+    useOutboxStore.getState().markAttempt(entry.id, {
+      error,
+      nextAttemptAt: Date.now() + backoff(attempts, err),
+      failed,
+    });
+    // Messages show "Not sent"; this says why
+    if (failed && err instanceof ApiError) {
+      useUIStore.getState().showToast({ message: `Not synced. ${error}` });
+    }
+  } finally {
+    busyLanes.delete(lane);
+    running.delete(entry.id);
+    if (isReply) replyInFlight = false;
+    processOutbox();
+  }
+}
+
+/**
+ * Starts every lane whose first entry is due and schedules the next
+ * backoff wake-up.
+ */
+function processOutbox() {
+  clearTimeout(timer);
+  timer = undefined;
+  if (!navigator.onLine) return;
+
+  const now = Date.now();
+  const seen = new Set<string>();
+  let nextDue = Infinity;
+
+  for (const entry of useOutboxStore.getState().entries) {
+    const lane = laneOf(entry.op);
+    // Only the head of a lane may run, to keep its writes in order
+    if (seen.has(lane)) continue;
+    seen.add(lane);
+
+    if (busyLanes.has(lane) || entry.status === "failed") continue;
+    if (entry.nextAttemptAt > now) {
+      nextDue = Math.min(nextDue, entry.nextAttemptAt);
+      continue;
+    }
+    // One reply streams at a time; resumed when the current one ends
+    if (
+      entry.op.kind === "reply" &&
+      (replyInFlight || useUIStore.getState().isStreaming)
+    ) {
+      continue;
+    }
+
+    void run(entry, lane);
+  }
+
+  if (nextDue < Infinity) timer = setTimeout(processOutbox, nextDue - now);
+}
+
+/**
+ * Finds a queued (not running) entry that `op` can be folded into.
+ */
+function coalesce(op: OutboxOp): OutboxOp | null {
+  const store = useOutboxStore.getState();
+
+  for (const entry of store.entries) {
+    if (running.has(entry.id)) continue;
+    const queued = entry.op;
+    let merged: OutboxOp | null = null;
+
+    if (queued.chatId !== op.chatId) {
+      continue;
+    } else if (queued.kind === "putMessage" && op.kind === "putMessage") {
+      // Message ids are unique per chat only (imports keep the source's)
+      if (queued.message.id === op.message.id) merged = op;
+    } else if (queued.kind === "updateChat" && op.kind === "updateChat") {
+      merged = { ...op, patch: { ...queued.patch, ...op.patch } };
+    } else if (queued.kind === "createChat" && op.kind === "updateChat") {
+      merged = { ...queued, chat: { ...queued.chat, ...op.patch } };
+    }
+
+    if (merged) {
+      store.replaceOp(entry.id, merged);
+      store.retry([entry.id]);
+      return merged;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Queues `op` and runs it as soon as its lane and the network allow.
+ */
+export function enqueue(op: OutboxOp) {
+  const store = useOutboxStore.getState();
+
+  if (op.kind === "deleteChat") {
+    // Writes to a chat that is going away are moot (running ones finish)
+    for (const entry of store.entries) {
+      if (entry.op.chatId === op.chatId && !running.has(entry.id)) {
+        store.remove(entry.id);
+      }
+    }
+  }
+
+  if (!coalesce(op)) store.enqueue(op);
+  processOutbox();
+}
+
+/**
+ * Queues a model reply to the user message `messageId`.
+ */
+export function requestReply(chatId: string, messageId: string) {
+  enqueue({ kind: "reply", chatId, messageId, replyId: crypto.randomUUID() });
+}
+
+function targetsMessage(op: OutboxOp, messageId: string) {
+  return (
+    (op.kind === "putMessage" && op.message.id === messageId) ||
+    (op.kind === "reply" && op.messageId === messageId)
+  );
+}
+
+/**
+ * Retries everything queued for a message right away.
+ */
+export function retryMessage(messageId: string) {
+  const ids = useOutboxStore
+    .getState()
+    .entries.filter((e) => targetsMessage(e.op, messageId))
+    .map((e) => e.id);
+
+  useOutboxStore.getState().retry(ids);
+  processOutbox();
+}
+
+export function getMessageStatus(
+  entries: OutboxEntry[],
+  messageId: string
+): MessageStatus {
+  let status: MessageStatus = "sent";
+
+  for (const entry of entries) {
+    if (!targetsMessage(entry.op, messageId)) continue;
+    if (entry.status === "failed") return "failed";
+    status = "pending";
+  }
+
+  return status;
+}
+
+/** Chats with queued metadata writes (create, update, delete). */
+export function pendingChatIds() {
+  return new Set(
+    useOutboxStore
+      .getState()
+      .entries.filter((e) => e.op.kind !== "putMessage" && e.op.kind !== "reply")
+      .map((e) => e.op.chatId)
+  );
+}
+
+/** Messages of `chatId` with queued writes. */
+export function pendingMessageIds(chatId: string) {
+  const ids = new Set<string>();
+
+  for (const { op } of useOutboxStore.getState().entries) {
+    if (op.kind === "putMessage" && op.chatId === chatId) ids.add(op.message.id);
+  }
+
+  return ids;
+}
+
+/**
+ * Starts working through the outbox, now and whenever the browser comes
+ * back online. Returns a function that stops it.
+ */
+export function startOutbox() {
+  const handleOnline = () => {
+    const { entries, retry } = useOutboxStore.getState();
+    retry(entries.map((e) => e.id));
+    processOutbox();
+  };
+  const handleOffline = () => clearTimeout(timer);
+
+  window.addEventListener("online", handleOnline);
+  window.addEventListener("offline", handleOffline);
+
+  const unsubscribe = useUIStore.subscribe((state, prev) => {
+    if (prev.isStreaming && !state.isStreaming) processOutbox();
+  });
+  // Switching accounts loads another account's queue
+  const unsubscribeHydration =
+    useOutboxStore.persist.onFinishHydration(() => processOutbox());
+
+  processOutbox();
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+    window.removeEventListener("offline", handleOffline);
+    unsubscribe();
+    unsubscribeHydration();
+    clearTimeout(timer);
+  };
+}
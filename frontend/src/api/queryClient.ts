@@ -0,0 +1,33 @@
+/**
+ * queryClient.ts
+ * ----------------
+ * Shared React Query client, and the query keys of the chat sync API
+ * and of the model lists.
+ *
+ * The client is a module singleton (not created inside a component) so
+ * store subscriptions in `sync.ts` can run mutations and touch the cache
+ * outside React.
+ */
+import { QueryClient } from "@tanstack/react-query";
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      retry: 2,
+    },
+  },
+});
+
+export const chatKeys = {
+  all: ["chats"] as const,
+  list: () => [...chatKeys.all, "list"] as const,
+  messages: (chatId: string) => [...chatKeys.all, chatId, "messages"] as const,
+};
+
+// Per connection, so changing the provider settings fetches a new list
+export const modelKeys = {
+  all: ["models"] as const,
+  list: (baseUrl: string, apiKey: string) =>
+    [...modelKeys.all, baseUrl, apiKey] as const,
+};
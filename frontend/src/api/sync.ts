@@ -0,0 +1,228 @@
+/**
+ * sync.ts
+ * ----------------
+ * Keeps the local stores and the chat sync API in step.
+ *
+ * Responsibilities:
+ * - Queue local changes (new, renamed, reconfigured, trashed and deleted chats;
+ *   new and edited messages) in the outbox, which sends them as
+ *   optimistic React Query mutations (see `outbox.ts`, `mutations.ts`)
+ * - Hold back a streaming reply and push it once, when the stream ends
+ * - Reconcile pulled chats and messages into the stores without echoing
+ *   them back to the server
+ * - Upload chats that were created before sync existed
+ * - Leave guest data alone: it is local-only
+ *
+ * Architecture Role:
+ * - The zustand stores stay the source of truth for the UI; this module
+ *   only observes them (`subscribe`) and applies server state to them.
+ * - Local writes still queued in the outbox win over pulled data.
+ */
+import { useChatListStore, type ChatSession } from "@/store/useChatListStore";
+import { readChatThread, useChatStore } from "@/store/useChatStore";
+import { useUIStore } from "@/store/useUIStore";
+import { isLocalNamespace } from "@/lib/namespace";
+import { applyRemote, isApplyingRemote } from "@/lib/remoteChanges";
+import { fromChatDto, fromMessageDto, toChatDto, toMessageDto } from "./mappers";
+import {
+  enqueue,
+  pendingChatIds,
+  pendingMessageIds,
+  startOutbox,
+} from "./outbox";
+import type { ChatDto, ChatPatch, MessageDto } from "./types";
+
+// Message ids changed locally and not pushed yet, per chat
+const dirty = new Map<string, Set<string>>();
+
+function pushChat(chat: ChatSession) {
+  enqueue({ kind: "createChat", chatId: chat.id, chat: toChatDto(chat) });
+}
+
+/* ---------- local → server ---------- */
+
+function flushMessages(chatId: string) {
+  // A streaming reply changes on every token; push it once it settles
+  if (useUIStore.getState().streamingChatId === chatId) return;
+
+  const ids = dirty.get(chatId);
+  const thread = useChatStore.getState().messagesByChatId[chatId];
+  dirty.delete(chatId);
+  if (!ids || !thread) return;
+
+  for (const id of ids) {
+    const node = thread.nodes[id];
+    if (node) {
+      enqueue({
+        kind: "putMessage",
+        chatId,
+        message: toMessageDto(chatId, node),
+      });
+    }
+  }
+}
+
+function markDirty(chatId: string, ids: Iterable<string>) {
+  const set = dirty.get(chatId) ?? new Set<string>();
+  for (const id of ids) set.add(id);
+  dirty.set(chatId, set);
+}
+
+async function uploadChat(chat: ChatSession) {
+  pushChat(chat);
+
+  const thread = await readChatThread(chat.id);
+  for (const node of Object.values(thread?.nodes ?? {})) {
+    enqueue({
+      kind: "putMessage",
+      chatId: chat.id,
+      message: toMessageDto(chat.id, node),
+    });
+  }
+}
+
+/**
+ * Starts pushing local store changes to the server through the outbox.
+ * Returns a function that stops it.
+ */
+export function startChatSync() {
+  const stopOutbox = startOutbox();
+
+  const unsubscribeChats = useChatListStore.subscribe((state, prev) => {
+    if (isApplyingRemote() || isLocalNamespace()) return;
+    if (state.chats === prev.chats) return;
+
+    const before = new Map(prev.chats.map((c) => [c.id, c]));
+
+    for (const chat of state.chats) {
+      const old = before.get(chat.id);
+      before.delete(chat.id);
+
+      if (!old) {
+        pushChat(chat);
+        continue;
+      }
+
+      const patch: ChatPatch = {};
+      if (chat.title !== old.title) patch.title = chat.title;
+      if (chat.model !== old.model) patch.model = chat.model;
+      if (chat.params !== old.params) patch.params = chat.params;
+      if (chat.deletedAt !== old.deletedAt) {
+        patch.deletedAt = chat.deletedAt ?? null;
+      }
+      if (Object.keys(patch).length > 0) {
+        enqueue({ kind: "updateChat", chatId: chat.id, patch });
+      }
+    }
+
+    for (const removed of before.values()) {
+      dirty.delete(removed.id);
+      enqueue({ kind: "deleteChat", chatId: removed.id });
+    }
+  });
+
+  const unsubscribeMessages = useChatStore.subscribe((state, prev) => {
+    if (
+      isApplyingRemote() ||
+      isLocalNamespace() ||
+      state.messagesByChatId === prev.messagesByChatId
+    ) {
+      return;
+    }
+    // Loading history from IndexedDB is not a local change
+    if (!useChatStore.persist.hasHydrated()) return;
+
+    for (const [chatId, thread] of Object.entries(state.messagesByChatId)) {
+      const old = prev.messagesByChatId[chatId];
+      // A chat appearing in memory was loaded (or just created empty)
+      if (thread === old || !old) continue;
+
+      const changed = Object.keys(thread.nodes).filter(
+        (id) => thread.nodes[id] !== old?.nodes[id]
+      );
+      if (changed.length === 0) continue;
+
+      markDirty(chatId, changed);
+      flushMessages(chatId);
+    }
+  });
+
+  const unsubscribeStreaming = useUIStore.subscribe((state, prev) => {
+    const finished = prev.streamingChatId;
+    if (finished && finished !== state.streamingChatId) flushMessages(finished);
+  });
+
+  return () => {
+    stopOutbox();
+    unsubscribeChats();
+    unsubscribeMessages();
+    unsubscribeStreaming();
+  };
+}
+
+/* ---------- server → local ---------- */
+
+/**
+ * Applies the server's chat list: adds and updates chats, drops the ones
+ * deleted elsewhere and uploads local chats the server has never seen.
+ */
+export function reconcileChats(remote: ChatDto[]) {
+  // Pulled for an account, arriving after a switch to local-only data
+  if (isLocalNamespace()) return;
+
+  // Chats with queued writes keep their local state (or stay deleted)
+  const pending = pendingChatIds();
+  const local = useChatListStore.getState().chats;
+  const remoteIds = new Set(remote.map((c) => c.id));
+
+  const removed = local.filter(
+    (c) => c.syncedAt && !remoteIds.has(c.id) && !pending.has(c.id)
+  );
+  const unsynced = local.filter(
+    (c) => !c.syncedAt && !remoteIds.has(c.id) && !pending.has(c.id)
+  );
+  const merged = [
+    ...remote.filter((c) => !pending.has(c.id)).map(fromChatDto),
+    ...local.filter((c) => pending.has(c.id)),
+  ];
+
+  applyRemote(() => {
+    useChatListStore.getState().mergeRemoteChats(merged);
+    for (const chat of removed) useChatStore.getState().clearChat(chat.id);
+  });
+
+  for (const chat of unsynced) void uploadChat(chat);
+}
+
+/**
+ * Merges a chat's server messages into its (loaded) thread and pushes
+ * local messages the server is missing.
+ */
+export function reconcileMessages(chatId: string, remote: MessageDto[]) {
+  // Runs again once the chat is loaded (see `useMessageSync`)
+  if (!useChatStore.getState().messagesByChatId[chatId]) return;
+  if (isLocalNamespace()) return;
+
+  // Unpushed local edits (including a streaming reply) win over the server
+  const pending = pendingMessageIds(chatId);
+  dirty.get(chatId)?.forEach((id) => pending.add(id));
+
+  const incoming = remote
+    .filter((m) => !pending.has(m.id))
+    .map(fromMessageDto);
+
+  applyRemote(() =>
+    useChatStore.getState().mergeRemoteMessages(chatId, incoming)
+  );
+
+  const remoteIds = new Set(remote.map((m) => m.id));
+  const thread = useChatStore.getState().messagesByChatId[chatId];
+  const missing = Object.keys(thread?.nodes ?? {}).filter(
+    (id) => !remoteIds.has(id)
+  );
+
+  if (missing.length > 0) {
+    markDirty(chatId, missing);
+    flushMessages(chatId);
+  }
+}
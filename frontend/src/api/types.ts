@@ -0,0 +1,42 @@
+/**
+ * Wire types of the chat sync API. See `docs/api.md` for the contract.
+ */
+import type { GenerationParams, ModelRef } from "@/lib/providers/types";
+import type { Attachment, MessageVersion } from "@/types/chat";
+
+export interface ChatDto {
+  id: string;
+  title: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms, set by the server
+  model?: ModelRef;
+  params?: GenerationParams;
+  sourceId?: string; // set once, when imported from another app
+  deletedAt?: number | null; // epoch ms while in the trash
+}
+
+export type ChatPatch = Partial<
+  Pick<ChatDto, "title" | "model" | "params" | "deletedAt">
+>;
+
+export interface MessageDto {
+  id: string;
+  chatId: string;
+  parentId: string | null;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: string; // ISO 8601
+  interrupted?: boolean;
+
+  // Metadata only — attachment bytes stay on the device that uploaded them
+  attachments?: Attachment[];
+
+  versions?: MessageVersion[];
+  versionIndex?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Opaque; pass back as `cursor` to get the next page, null when done
+  nextCursor: string | null;
+}
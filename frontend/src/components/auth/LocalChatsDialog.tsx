@@ -0,0 +1,110 @@
+/**
+ * LocalChatsDialog.tsx
+ * ----------------
+ * Offered after signing in while this browser still has chats kept
+ * without an account (from guest mode, or from before accounts existed):
+ * move them into the account, keep them for later or delete them (see
+ * `lib/localChats`).
+ *
+ * Controlled by `useUIStore.localChatsSource`.
+ */
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  countLocalChats,
+  discardLocalChats,
+  moveLocalChats,
+  nextLocalChats,
+} from "@/lib/localChats";
+import { GUEST_NAMESPACE } from "@/lib/namespace";
+import { useUIStore } from "@/store/useUIStore";
+
+export function LocalChatsDialog() {
+  const source = useUIStore((s) => s.localChatsSource);
+  const setSource = useUIStore((s) => s.setLocalChatsSource);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOpen = source !== undefined;
+  const isGuest = source === GUEST_NAMESPACE;
+  const count = isOpen ? countLocalChats(source) : 0;
+  const noun = isGuest ? "guest chats" : "chats";
+  const origin = isGuest ? "from guest mode" : "from before you signed in";
+
+  const run = async (task: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+      // Then offer whatever else is left
+      setSource(nextLocalChats());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMove = () =>
+    run(async () => {
+      if (source === undefined) return;
+      const moved = await moveLocalChats(source);
+      useUIStore
+        .getState()
+        .showToast({ message: `${moved} ${noun} moved to your account` });
+    });
+
+  const handleDiscard = () => {
+    if (source === undefined) return;
+    if (confirm(`Delete ${count} ${noun}? This cannot be undone.`)) {
+      void run(() => discardLocalChats(source));
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => !isBusy && !open && setSource(undefined)}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isGuest ? "Move your guest chats?" : "Move your earlier chats?"}
+          </DialogTitle>
+          <DialogDescription>
+            You have {count} chats {origin} in this browser. Move them
+            into your account to keep and sync them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" disabled={isBusy} onClick={handleDiscard}>
+            Delete them
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isBusy}
+            onClick={() => setSource(undefined)}
+          >
+            Not now
+          </Button>
+          <Button disabled={isBusy} onClick={() => void handleMove()}>
+            {isBusy ? "Moving…" : "Move to my account"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
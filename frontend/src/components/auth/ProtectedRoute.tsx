@@ -1,11 +1,14 @@
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuthStore } from "@/store/useAuthStore";
 
 export function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const token = useAuthStore((s) => s.token);
+  const isGuest = useAuthStore((s) => s.isGuest);
+  const location = useLocation();
 
-  if (!token) {
-    return <Navigate to="/login" replace />;
+  if (!token && !isGuest) {
+    // Login sends the user back here afterwards
+    return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
   return <>{children}</>;
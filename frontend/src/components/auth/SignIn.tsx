@@ -0,0 +1,125 @@
+/**
+ * SignIn.tsx
+ * ----------------
+ * The sign-in control of the configured auth provider (see `lib/auth`).
+ *
+ * Every variant ends by calling `onToken` with an ID token, except OIDC:
+ * it leaves for the provider and finishes on `AuthCallbackPage`, which
+ * returns to `returnTo` itself.
+ */
+
+import { useState } from "react";
+import { GoogleLogin, GoogleOAuthProvider } from "@react-oauth/google";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Field } from "@/components/settings/Field";
+import {
+  authProvider,
+  createDevToken,
+  googleClientId,
+  readDevIdentity,
+  startOidcSignIn,
+} from "@/lib/auth";
+
+interface SignInProps {
+  onToken: (token: string) => void;
+  // Where to go after signing in
+  returnTo: string;
+}
+
+function GoogleSignIn({ onToken }: SignInProps) {
+  return (
+    <GoogleOAuthProvider clientId={googleClientId ?? ""}>
+      <GoogleLogin
+        onSuccess={({ credential }) => {
+          if (credential) onToken(credential);
+        }}
+        onError={() => {
+          console.error("Google Login Failed");
+        }}
+        useOneTap={false}
+        auto_select={false}
+      />
+    </GoogleOAuthProvider>
+  );
+}
+
+function OidcSignIn({ returnTo }: SignInProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [redirecting, setRedirecting] = useState(false);
+
+  const signIn = () => {
+    setError(null);
+    setRedirecting(true);
+    startOidcSignIn(returnTo).catch((err: unknown) => {
+      setError(err instanceof Error ? err.message : String(err));
+      setRedirecting(false);
+    });
+  };
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <Button className="w-full" disabled={redirecting} onClick={signIn}>
+        {redirecting ? "Redirecting…" : "Continue with single sign-on"}
+      </Button>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+function DevSignIn({ onToken }: SignInProps) {
+  const [identity, setIdentity] = useState(
+    () => readDevIdentity() ?? { name: "Developer", email: "dev@localhost" }
+  );
+
+  return (
+    <form
+      className="flex w-full flex-col gap-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onToken(createDevToken(identity));
+      }}
+    >
+      <Field label="Name">
+        {(id) => (
+          <Input
+            id={id}
+            value={identity.name}
+            onChange={(e) => setIdentity({ ...identity, name: e.target.value })}
+          />
+        )}
+      </Field>
+
+      <Field label="Email" hint="Each email gets its own workspace">
+        {(id) => (
+          <Input
+            id={id}
+            type="email"
+            required
+            value={identity.email}
+            onChange={(e) =>
+              setIdentity({ ...identity, email: e.target.value })
+            }
+          />
+        )}
+      </Field>
+
+      <Button type="submit">Continue</Button>
+    </form>
+  );
+}
+
+const signInControls = {
+  google: GoogleSignIn,
+  oidc: OidcSignIn,
+  dev: DevSignIn,
+};
+
+export function SignIn(props: SignInProps) {
+  // LoginPage shows the configuration error instead
+  if (!authProvider) return null;
+
+  const Control = signInControls[authProvider.id];
+  return <Control {...props} />;
+}
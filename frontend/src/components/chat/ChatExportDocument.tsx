@@ -0,0 +1,88 @@
+/**
+ * ChatExportDocument.tsx
+ * ----------------
+ * Static rendering of a chat for HTML exports.
+ *
+ * - Rendered once to markup (no hooks, no interactivity)
+ * - Markdown and code highlighting match `ChatMessage`
+ * - Images are inlined as data URLs so the file works offline
+ */
+
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+import { formatBytes } from "@/lib/attachments";
+import { INTERRUPTED_LABEL, type MessageNode } from "@/types/chat";
+import { HighlightedCode } from "./HighlightedCode";
+
+const ROLE_LABELS = { user: "You", assistant: "Assistant" } as const;
+
+function StaticCode({
+  className,
+  children,
+}: {
+  className?: string;
+  children?: React.ReactNode;
+}) {
+  const match = /language-(\w+)/.exec(className || "");
+  const code = String(children ?? "").replace(/\n$/, "");
+
+  if (!match) return <code className="inline-code">{children}</code>;
+
+  return (
+    <div className="code-block">
+      <div className="code-header">{match[1]}</div>
+      <HighlightedCode code={code} language={match[1]} />
+    </div>
+  );
+}
+
+export function ChatExportDocument({
+  title,
+  messages,
+  imageUrls,
+}: {
+  title: string;
+  messages: MessageNode[];
+  imageUrls: Record<string, string>;
+}) {
+  return (
+    <main>
+      <h1>{title}</h1>
+
+      {messages.map((message) => (
+        <section key={message.id} className={`message ${message.role}`}>
+          <h2>{ROLE_LABELS[message.role]}</h2>
+          <time dateTime={new Date(message.timestamp).toISOString()}>
+            {new Date(message.timestamp).toLocaleString()}
+          </time>
+
+          {message.attachments?.map((attachment) =>
+            imageUrls[attachment.id] ? (
+              <img
+                key={attachment.id}
+                src={imageUrls[attachment.id]}
+                alt={attachment.name}
+              />
+            ) : (
+              <div key={attachment.id} className="attachment">
+                📎 {attachment.name} ({formatBytes(attachment.size)})
+              </div>
+            )
+          )}
+
+          <div className="content">
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={{ code: StaticCode }}
+            >
+              {message.content}
+            </ReactMarkdown>
+          </div>
+
+          {message.interrupted && <p className="note">{INTERRUPTED_LABEL}</p>}
+        </section>
+      ))}
+    </main>
+  );
+}
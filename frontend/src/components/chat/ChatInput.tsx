@@ -4,12 +4,20 @@
  * This component renders the main message input bar for the chat interface.
  * 
  * Responsibilities:
- * - Capture user text input with auto-resizing textarea
- * - Handle Enter-to-send behavior (Shift+Enter for newline)
- * - Support file & image uploads using drag-and-drop
- * - Display file previews before sending
+ * - Capture user text input with auto-resizing textarea, keeping the
+ *   unsent draft in `useDraftStore`
+ * - Handle Enter-to-send behavior (Shift+Enter for newline), or
+ *   Ctrl/⌘+Enter to send when preferred
+ * - Insert saved prompt templates (see `usePromptTemplateStore`)
+ * - Support file & image uploads using drag-and-drop or clipboard paste
+ * - Downscale large images to the configured limits before upload
+ * - Display file previews (image thumbnails) before sending
+ * - Extract text from documents in the browser and show its token count
+ * - Store attached files in IndexedDB and send them with the message
  * - Auto-focus input when a new chat is started
  * - Prevent sending while AI response is streaming
+ * - Turn the send button into a Stop button during streaming
+ * - Request an assistant reply after every sent message
  *
  * UX Goals:
  * - Behave like ChatGPT input experience
@@ -18,25 +26,161 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import TextareaAutosize from "react-textarea-autosize";
-import { SendHorizontal, Paperclip, X } from "lucide-react";
+import {
+  SendHorizontal,
+  Paperclip,
+  Square,
+  X,
+  Loader2,
+  BookText,
+} from "lucide-react";
 import { useDropzone } from "react-dropzone";
 
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useChatStore } from "@/store/useChatStore";
 import { useUIStore } from "@/store/useUIStore";
+import { useDraftStore } from "@/store/useDraftStore";
+import { usePromptTemplateStore } from "@/store/usePromptTemplateStore";
+import { usePreferencesStore } from "@/store/usePreferencesStore";
+import { requestReply } from "@/api/outbox";
+import { saveAttachment } from "@/lib/attachments";
+import { downscaleImage } from "@/lib/images";
+import { extractText, findExtractor } from "@/lib/extractors";
+import {
+  attachmentTokenBudget,
+  estimateTokens,
+  truncateToTokens,
+} from "@/lib/tokens";
+import { useChatModel } from "@/hooks/use-chat-model";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import type { Attachment } from "@/types/chat";
 import { useNavigate } from "react-router-dom";
 
+type Extraction =
+  | { status: "pending" }
+  | { status: "done"; text: string; tokens: number }
+  | { status: "error"; error: string };
+
+/**
+ * A file picked for the next message. `previewUrl` is an object URL
+ * for image thumbnails and must be revoked when the file is dropped.
+ * `extraction` is set for documents whose text is being / was extracted.
+ */
+interface PendingFile {
+  id: string;
+  file: File;
+  previewUrl?: string;
+  extraction?: Extraction;
+}
+
+/**
+ * Splits the attachment token budget across documents in order; later
+ * documents get what earlier ones left over.
+ */
+function allocateBudget(files: PendingFile[], budget: number) {
+  let remaining = budget;
+  const allowed = new Map<string, number>();
+
+  for (const f of files) {
+    if (f.extraction?.status !== "done") continue;
+    allowed.set(f.id, Math.max(0, remaining));
+    remaining -= f.extraction.tokens;
+  }
+
+  return allowed;
+}
+
+function revokePreviews(files: PendingFile[]) {
+  for (const f of files) {
+    if (f.previewUrl) URL.revokeObjectURL(f.previewUrl);
+  }
+}
+
+/**
+ * "extracted N tokens" indicator next to a pending document.
+ */
+function ExtractionBadge({
+  extraction,
+  allowed,
+}: {
+  extraction: Extraction;
+  allowed?: number;
+}) {
+  if (extraction.status === "pending") {
+    return (
+      <span className="flex items-center gap-1 text-zinc-500">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        extracting…
+      </span>
+    );
+  }
+
+  if (extraction.status === "error") {
+    return (
+      <span className="text-red-500" title={extraction.error}>
+        extraction failed
+      </span>
+    );
+  }
+
+  const truncated = allowed !== undefined && extraction.tokens > allowed;
+
+  return (
+    <span
+      className={truncated ? "text-amber-600" : "text-zinc-500"}
+      title={
+        truncated
+          ? `Only ~${allowed} tokens fit in the model's context budget`
+          : undefined
+      }
+    >
+      extracted {extraction.tokens.toLocaleString()} tokens
+      {truncated && " (truncated)"}
+    </span>
+  );
+}
+
 export function ChatInput() {
-  const [input, setInput] = useState("");
-  const [files, setFiles] = useState<File[]>([]);
+  // Persisted, so a reload or an ended session doesn't lose it
+  const input = useDraftStore((s) => s.text);
+  const setInput = useDraftStore((s) => s.setText);
+  const templates = usePromptTemplateStore((s) => s.templates);
+  const sendWithEnter = usePreferencesStore((s) => s.sendWithEnter);
+  const [files, setFiles] = useState<PendingFile[]>([]);
+  // True while attachments are being written to IndexedDB
+  const [isSending, setIsSending] = useState(false);
 
   const activeChatId = useChatStore((s) => s.activeChatId);
   const addMessage = useChatStore((s) => s.addMessage);
   const createNewChat=useChatStore((s)=>s.createNewChat);
   const isStreaming = useUIStore((s) => s.isStreaming);
+  // Sending into a chat still loading would fork it from an empty history
+  const isLoadingChat = useChatStore(
+    (s) => s.loadingChatId !== null && s.loadingChatId === s.activeChatId
+  );
+  // Only one tab streams into a chat at a time
+  const isStreamingElsewhere = useUIStore(
+    (s) => !!activeChatId && s.remoteStreamingChatIds.includes(activeChatId)
+  );
+  const stopStreaming = useUIStore((s) => s.stopStreaming);
+  const { info: modelInfo } = useChatModel();
+  const tokenBudget = attachmentTokenBudget(modelInfo?.contextLength);
+  const allowedTokens = allocateBudget(files, tokenBudget);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const navigate =useNavigate();
-  
+
+  // Latest pending files, so previews can be revoked on unmount
+  const filesRef = useRef(files);
+  useEffect(() => {
+    filesRef.current = files;
+  }, [files]);
+  useEffect(() => () => revokePreviews(filesRef.current), []);
 
 
   /**
@@ -47,8 +191,84 @@ export function ChatInput() {
     textareaRef.current?.focus();
   }, [activeChatId]);
 
+  const addFiles = async (incoming: File[]) => {
+    const limits = useSettingsStore.getState().imageLimits;
+
+    const prepared = await Promise.all(
+      incoming.map(async (original) => {
+        const file = await downscaleImage(original, limits).catch(
+          () => original
+        );
+
+        return {
+          id: crypto.randomUUID(),
+          file,
+          previewUrl: file.type.startsWith("image/")
+            ? URL.createObjectURL(file)
+            : undefined,
+        };
+      })
+    );
+
+    setFiles((prev) => [...prev, ...prepared]);
+
+    for (const pending of prepared) {
+      if (pending.previewUrl || !findExtractor(pending.file)) continue;
+      void runExtraction(pending);
+    }
+  };
+
+  const setExtraction = (id: string, extraction: Extraction) =>
+    setFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, extraction } : f))
+    );
+
+  const runExtraction = async ({ id, file }: PendingFile) => {
+    setExtraction(id, { status: "pending" });
+    try {
+      const text = (await extractText(file)) ?? "";
+      setExtraction(id, { status: "done", text, tokens: estimateTokens(text) });
+    } catch (err) {
+      console.error(`Text extraction failed for ${file.name}`, err);
+      setExtraction(id, {
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const removeFile = (id: string) => {
+    setFiles((prev) => {
+      revokePreviews(prev.filter((f) => f.id === id));
+      return prev.filter((f) => f.id !== id);
+    });
+  };
+
   const onDrop = (acceptedFiles: File[]) => {
-    setFiles((prev) => [...prev, ...acceptedFiles]);
+    void addFiles(acceptedFiles);
+  };
+
+  /**
+   * Pasting an image (e.g. a screenshot) attaches it instead of
+   * inserting nothing. Text paste keeps the default behavior.
+   */
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const images = Array.from(e.clipboardData.files).filter((f) =>
+      f.type.startsWith("image/")
+    );
+    if (images.length === 0) return;
+
+    e.preventDefault();
+    // Clipboard images are all called "image.png" — make names unique
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    void addFiles(
+      images.map(
+        (f, i) =>
+          new File([f], `pasted-${stamp}-${i + 1}.${f.type.split("/")[1]}`, {
+            type: f.type,
+          })
+      )
+    );
   };
 
   const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
@@ -60,14 +280,56 @@ export function ChatInput() {
   const canSend = useMemo(() => {
     return (
       !isStreaming &&
+      !isSending &&
+      !isLoadingChat &&
+      !isStreamingElsewhere &&
+      // Wait for text extraction so documents aren't sent without text
+      !files.some((f) => f.extraction?.status === "pending") &&
       (input.trim().length > 0 || files.length > 0)
     );
-  }, [input, files.length, isStreaming]);
+  }, [
+    input,
+    files,
+    isStreaming,
+    isSending,
+    isLoadingChat,
+    isStreamingElsewhere,
+  ]);
 
-  const handleSubmit = (e?: React.FormEvent) => {
+  const handleSubmit = async (e?: React.FormEvent) => {
   e?.preventDefault();
   if (!canSend) return;
 
+  const content = input;
+  const pendingFiles = files;
+
+  setInput("");
+  setFiles([]);
+  setIsSending(true);
+
+  let attachments: Attachment[];
+  try {
+    attachments = await Promise.all(
+      pendingFiles.map((f) =>
+        saveAttachment(
+          f.file,
+          f.extraction?.status === "done"
+            ? truncateToTokens(f.extraction.text, allowedTokens.get(f.id) ?? 0)
+            : undefined
+        )
+      )
+    );
+  } catch (err) {
+    // Give the draft back instead of silently dropping files
+    console.error("Saving attachments failed", err);
+    setInput(content);
+    setFiles(pendingFiles);
+    return;
+  } finally {
+    setIsSending(false);
+  }
+  revokePreviews(pendingFiles);
+
   let chatId = activeChatId;
 
   if (!chatId) {
@@ -75,24 +337,30 @@ export function ChatInput() {
     navigate(`/c/${chatId}`);
   }
 
+  // Client-generated so queued writes can be replayed safely
+  const messageId = crypto.randomUUID();
+
   addMessage(chatId, {
-    id: Date.now().toString(),
+    id: messageId,
     role: "user",
-    content: input,
+    content,
     timestamp: new Date(),
+    ...(attachments.length > 0 ? { attachments } : {}),
   });
 
-  setInput("");
-  setFiles([]);
+  requestReply(chatId, messageId);
 };
 
 
 
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+    if (e.key !== "Enter" || e.shiftKey) return;
+
+    // Ctrl/⌘+Enter always sends; plain Enter unless that's turned off
+    if (sendWithEnter || e.ctrlKey || e.metaKey) {
       e.preventDefault();
-      handleSubmit();
+      void handleSubmit();
     }
   };
 
@@ -107,28 +375,52 @@ export function ChatInput() {
       {/* File preview */}
       {files.length > 0 && (
         <div className="mb-2 flex flex-wrap gap-2">
-          {files.map((file, i) => (
-            <div
-              key={`${file.name}-${file.size}-${i}`}
-              className="flex items-center gap-2 rounded bg-zinc-100 px-2 py-1 text-xs dark:bg-zinc-800"
-            >
-              <span className="max-w-[140px] truncate">
-                {file.name}
-              </span>
-              <button
-                type="button"
-                onClick={() =>
-                  setFiles((prev) =>
-                    prev.filter((_, idx) => idx !== i)
-                  )
-                }
-                className="text-zinc-600 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-white"
-                aria-label={`Remove ${file.name}`}
+          {files.map(({ id, file, previewUrl, extraction }) =>
+            previewUrl ? (
+              <div
+                key={id}
+                className="relative h-16 w-16 overflow-hidden rounded-lg border bg-zinc-100 dark:bg-zinc-800"
+                title={file.name}
               >
-                <X className="h-3 w-3" />
-              </button>
-            </div>
-          ))}
+                <img
+                  src={previewUrl}
+                  alt={file.name}
+                  className="h-full w-full object-cover"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeFile(id)}
+                  className="absolute top-0.5 right-0.5 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ) : (
+              <div
+                key={id}
+                className="flex items-center gap-2 rounded bg-zinc-100 px-2 py-1 text-xs dark:bg-zinc-800"
+              >
+                <span className="max-w-[140px] truncate">
+                  {file.name}
+                </span>
+                {extraction && (
+                  <ExtractionBadge
+                    extraction={extraction}
+                    allowed={allowedTokens.get(id)}
+                  />
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeFile(id)}
+                  className="text-zinc-600 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-white"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )
+          )}
         </div>
       )}
 
@@ -153,6 +445,38 @@ export function ChatInput() {
           <Paperclip className="h-5 w-5" />
         </Button>
 
+        {/* Prompt templates, appended to the draft */}
+        {templates.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-10 w-10 rounded-xl text-zinc-500"
+                aria-label="Insert prompt template"
+              >
+                <BookText className="h-5 w-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="top" align="start">
+              {templates.map((template) => (
+                <DropdownMenuItem
+                  key={template.id}
+                  onClick={() => {
+                    setInput(
+                      input ? `${input}\n\n${template.text}` : template.text
+                    );
+                    textareaRef.current?.focus();
+                  }}
+                >
+                  {template.title}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
         {/* Auto-resizing textarea */}
         <TextareaAutosize
           ref={textareaRef}
@@ -161,25 +485,40 @@ export function ChatInput() {
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           placeholder="Message…"
           className="min-h-[40px] flex-1 resize-none border-none bg-transparent px-3 py-2.5 text-sm focus:outline-none"
         />
 
-        {/* Send button */}
-        <Button
-          type="button"
-          size="icon"
-          disabled={!canSend}
-          onClick={handleSubmit}
-          className="h-10 w-10 shrink-0 rounded-xl bg-zinc-900 dark:bg-zinc-100 dark:text-zinc-900"
-          aria-label="Send message"
-        >
-          <SendHorizontal className="h-5 w-5" />
-        </Button>
+        {/* Send / Stop button */}
+        {isStreaming ? (
+          <Button
+            type="button"
+            size="icon"
+            onClick={() => stopStreaming()}
+            className="h-10 w-10 shrink-0 rounded-xl bg-zinc-900 dark:bg-zinc-100 dark:text-zinc-900"
+            aria-label="Stop generating"
+          >
+            <Square className="h-4 w-4 fill-current" />
+          </Button>
+        ) : (
+          <Button
+            type="button"
+            size="icon"
+            disabled={!canSend}
+            onClick={() => void handleSubmit()}
+            className="h-10 w-10 shrink-0 rounded-xl bg-zinc-900 dark:bg-zinc-100 dark:text-zinc-900"
+            aria-label="Send message"
+          >
+            <SendHorizontal className="h-5 w-5" />
+          </Button>
+        )}
       </div>
 
       <p className="mt-2 text-center text-[10px] text-zinc-500">
-        Models can make mistakes. Check important info.
+        {isStreamingElsewhere
+          ? "Replying in another tab…"
+          : "Models can make mistakes. Check important info."}
       </p>
     </div>
   );
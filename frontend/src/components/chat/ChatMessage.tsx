@@ -10,6 +10,10 @@
  * - Render Markdown + GitHub-flavored markdown (tables, lists, code, etc.)
  * - Provide syntax-highlighted code blocks with copy support
  * - Allow editing of user messages and resubmission
+ * - Regenerate assistant replies and browse their versions ("‹ 2/3 ›")
+ * - Fork the conversation on edit and switch between branches
+ * - Show files attached to the message
+ * - Show whether a user message is pending, failed or sent, with retry
  * - Display avatars and sender labels
  *
  * UX Goals:
@@ -25,22 +29,34 @@
  * Future Enhancements:
  * - Token streaming animation
  * - Message-level feedback (thumbs up/down)
- * - Inline regeneration of assistant responses
  * - Message context actions (pin, bookmark, copy link)
  */
 
 import { useEffect, useMemo, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
-import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
-import { Copy, Check, Pencil } from "lucide-react";
+import {
+  Copy,
+  Check,
+  Pencil,
+  CircleSlash,
+  RotateCcw,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  CircleAlert,
+} from "lucide-react";
 
 import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useChatStore } from "@/store/useChatStore";
+import { useUIStore } from "@/store/useUIStore";
+import { INTERRUPTED_LABEL, type Attachment } from "@/types/chat";
+import type { MessageStatus } from "@/api/outbox";
+import { MessageAttachments } from "./MessageAttachments";
+import { HighlightedCode } from "./HighlightedCode";
 
 type Role = "user" | "assistant";
 
@@ -49,12 +65,51 @@ interface ChatMessageProps {
   role: Role;
   content: string;
 
+  /**
+   * Files sent with this message.
+   */
+  attachments?: Attachment[];
+
+  /**
+   * True when generation was stopped before this reply finished.
+   */
+  interrupted?: boolean;
+
+  /**
+   * Optional: delivery state of a user message (outbox).
+   * `onRetry` is offered once it has failed.
+   */
+  status?: MessageStatus;
+  onRetry?: () => void;
+
   /**
    * Optional: call this after user edits + saves a message.
-   * Use it to re-run your API and regenerate assistant responses.
+   * The edit is stored as a new branch; `messageId` is the id of that
+   * branch's message. Use it to request a reply on the new branch.
    */
   onResubmit?: (newPrompt: string, messageId: string) => void;
 
+  /**
+   * Optional: produce a new version of this assistant reply.
+   */
+  onRegenerate?: (messageId: string) => void;
+
+  /**
+   * Optional: version navigation for regenerated replies.
+   * Shown only when there is more than one version.
+   */
+  versionIndex?: number;
+  versionCount?: number;
+  onSelectVersion?: (index: number) => void;
+
+  /**
+   * Optional: branch navigation for edited messages.
+   * Shown only when the message has siblings.
+   */
+  branchIndex?: number;
+  branchCount?: number;
+  onSelectBranch?: (index: number) => void;
+
   /**
    * Optional: override avatar images if you want
    */
@@ -139,18 +194,52 @@ function CodeBlock({
       </div>
 
       {/* Code body */}
-      <SyntaxHighlighter
-        style={vscDarkPlus}
-        language={language}
-        PreTag="div"
-        customStyle={{
-          margin: 0,
-          background: "#1e1e1e",
-        }}
-        {...props}
+      <HighlightedCode code={code} language={language} {...props} />
+    </div>
+  );
+}
+
+/**
+ * "‹ 2/3 ›" pager used for both reply versions and conversation branches.
+ */
+function Pager({
+  index,
+  count,
+  label,
+  disabled,
+  onSelect,
+}: {
+  index: number;
+  count: number;
+  label: string;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+}) {
+  return (
+    <div className="flex items-center text-xs tabular-nums">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || index === 0}
+        onClick={() => onSelect(index - 1)}
+        aria-label={`Previous ${label}`}
       >
-        {code}
-      </SyntaxHighlighter>
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <span>
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        disabled={disabled || index === count - 1}
+        onClick={() => onSelect(index + 1)}
+        aria-label={`Next ${label}`}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
     </div>
   );
 }
@@ -159,7 +248,18 @@ export function ChatMessage({
   id,
   role,
   content,
+  attachments,
+  interrupted,
+  status,
+  onRetry,
   onResubmit,
+  onRegenerate,
+  versionIndex = 0,
+  versionCount = 1,
+  onSelectVersion,
+  branchIndex = 0,
+  branchCount = 1,
+  onSelectBranch,
   userAvatarSrc = "/user-avatar.png",
   assistantAvatarSrc = "/assistant-avatar.png",
   userLabel = "You",
@@ -172,7 +272,8 @@ export function ChatMessage({
   const [copied, setCopied] = useState(false);
 
 
-  const updateMessage = useChatStore((s) => s.updateMessage);
+  const editMessage = useChatStore((s) => s.editMessage);
+  const isStreaming = useUIStore((s) => s.isStreaming);
 
   // Keep editValue synced if content updates (e.g. store update/streaming)
   useEffect(() => {
@@ -190,12 +291,15 @@ export function ChatMessage({
 
     const activeChatId = useChatStore.getState().activeChatId;
     if (!activeChatId) return;
-    updateMessage(activeChatId, id, next);
+
+    // Edits fork a new branch; the original stays browsable
+    const branchId = editMessage(activeChatId, id, next);
+    if (!branchId) return;
 
     setIsEditing(false);
 
     // Optional: trigger regeneration based on edited prompt
-    onResubmit?.(next, id);
+    onResubmit?.(next, branchId);
   };
 
   return (
@@ -220,6 +324,10 @@ export function ChatMessage({
             {isAssistant ? assistantLabel : userLabel}
           </p>
 
+          {attachments && attachments.length > 0 && (
+            <MessageAttachments attachments={attachments} />
+          )}
+
           {isEditing ? (
             <div className="flex flex-col gap-2">
               <Textarea
@@ -249,6 +357,43 @@ export function ChatMessage({
               </ReactMarkdown>
             </div>
           )}
+
+          {interrupted && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-zinc-500">
+              <CircleSlash className="h-3.5 w-3.5" />
+              {INTERRUPTED_LABEL}
+            </p>
+          )}
+
+          {status === "pending" && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-zinc-500">
+              <Clock className="h-3.5 w-3.5" />
+              Sending…
+            </p>
+          )}
+
+          {status === "failed" && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-red-500">
+              <CircleAlert className="h-3.5 w-3.5" />
+              Not sent
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={onRetry}
+                  className="ml-1 font-medium underline underline-offset-2"
+                >
+                  Retry
+                </button>
+              )}
+            </p>
+          )}
+
+          {status === "sent" && (
+            <p className="mt-2 flex items-center gap-1 text-xs text-zinc-400">
+              <Check className="h-3.5 w-3.5" />
+              Sent
+            </p>
+          )}
         </div>
 
         {/* Edit button: only show for USER messages and only when not editing */}
@@ -258,6 +403,39 @@ export function ChatMessage({
                     opacity-100 md:opacity-0 md:group-hover:opacity-100
                     transition-opacity"
         >
+        {branchCount > 1 && onSelectBranch && (
+            <Pager
+            index={branchIndex}
+            count={branchCount}
+            label="branch"
+            disabled={isStreaming}
+            onSelect={onSelectBranch}
+            />
+        )}
+
+        {isAssistant && versionCount > 1 && onSelectVersion && (
+            <Pager
+            index={versionIndex}
+            count={versionCount}
+            label="version"
+            disabled={isStreaming}
+            onSelect={onSelectVersion}
+            />
+        )}
+
+        {isAssistant && onRegenerate && (
+            <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={isStreaming}
+            onClick={() => onRegenerate(id)}
+            aria-label="Regenerate response"
+            >
+            <RotateCcw className="h-4 w-4" />
+            </Button>
+        )}
+
         {!isAssistant && !isEditing && (
             <Button
             variant="ghost"
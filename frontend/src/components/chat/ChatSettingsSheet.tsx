@@ -0,0 +1,186 @@
+/**
+ * ChatSettingsSheet.tsx
+ * ----------------
+ * Side sheet for the system prompt and generation parameters of a chat.
+ *
+ * Responsibilities:
+ * - Edit system prompt, temperature, top_p, max output tokens and
+ *   stop sequences of the active chat (stored on its `ChatSession`)
+ * - Without an active chat, edit the default profile new chats inherit
+ * - Copy the chat's values into the default profile, or reset the chat
+ *   back to the default profile
+ *
+ * Inputs are uncontrolled and re-mounted per chat, so partially typed
+ * numbers ("0.") are not clobbered while the user is typing.
+ */
+
+import { useId, useState } from "react";
+import { SlidersHorizontal } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import type { GenerationParams } from "@/lib/providers";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+
+type NumericParam = "temperature" | "topP" | "maxTokens";
+
+const NUMERIC_FIELDS: {
+  key: NumericParam;
+  label: string;
+  min: number;
+  max?: number;
+  step: number;
+}[] = [
+  { key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.1 },
+  { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05 },
+  { key: "maxTokens", label: "Max output tokens", min: 1, step: 1 },
+];
+
+function ParamsForm({
+  params,
+  onChange,
+}: {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+}) {
+  const id = useId();
+
+  const setNumber = (key: NumericParam, raw: string) => {
+    const value = raw.trim() === "" ? undefined : Number(raw);
+    if (value !== undefined && Number.isNaN(value)) return;
+    onChange({ ...params, [key]: value });
+  };
+
+  return (
+    <div className="flex flex-col gap-4 px-4">
+      <div className="flex flex-col gap-1.5">
+        <label htmlFor={`${id}-system`} className="text-sm font-medium">
+          System prompt
+        </label>
+        <Textarea
+          id={`${id}-system`}
+          defaultValue={params.systemPrompt}
+          onChange={(e) => onChange({ ...params, systemPrompt: e.target.value })}
+          placeholder="You are a helpful assistant."
+          className="min-h-[120px]"
+        />
+      </div>
+
+      {NUMERIC_FIELDS.map((field) => (
+        <div key={field.key} className="flex flex-col gap-1.5">
+          <label htmlFor={`${id}-${field.key}`} className="text-sm font-medium">
+            {field.label}
+          </label>
+          <Input
+            id={`${id}-${field.key}`}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            defaultValue={params[field.key] ?? ""}
+            onChange={(e) => setNumber(field.key, e.target.value)}
+            placeholder="Provider default"
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-col gap-1.5">
+        <label htmlFor={`${id}-stop`} className="text-sm font-medium">
+          Stop sequences
+        </label>
+        <Textarea
+          id={`${id}-stop`}
+          defaultValue={params.stop.join("\n")}
+          onChange={(e) =>
+            onChange({
+              ...params,
+              stop: e.target.value.split("\n").filter((s) => s !== ""),
+            })
+          }
+          placeholder="One per line"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function ChatSettingsSheet() {
+  const activeChatId = useChatStore((s) => s.activeChatId);
+  const chatParams = useChatListStore(
+    (s) => s.chats.find((c) => c.id === activeChatId)?.params
+  );
+  const setChatParams = useChatListStore((s) => s.setChatParams);
+  const defaultParams = useSettingsStore((s) => s.defaultParams);
+  const setDefaultParams = useSettingsStore((s) => s.setDefaultParams);
+
+  // Bumped to re-mount the uncontrolled form after a reset
+  const [formKey, setFormKey] = useState(0);
+
+  const isChat = Boolean(activeChatId);
+  const params = chatParams ?? defaultParams;
+
+  const handleChange = (next: GenerationParams) => {
+    if (activeChatId) setChatParams(activeChatId, next);
+    else setDefaultParams(next);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          type="button"
+          className="rounded-lg p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          aria-label="Chat settings"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </SheetTrigger>
+
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{isChat ? "Chat settings" : "Default profile"}</SheetTitle>
+          <SheetDescription>
+            {isChat
+              ? "Sent with every request in this chat."
+              : "New chats start with these settings."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ParamsForm
+          key={`${activeChatId}-${formKey}`}
+          params={params}
+          onChange={handleChange}
+        />
+
+        {isChat && (
+          <SheetFooter>
+            <Button variant="outline" onClick={() => setDefaultParams(params)}>
+              Use as default for new chats
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                handleChange(defaultParams);
+                setFormKey((k) => k + 1);
+              }}
+            >
+              Reset to default
+            </Button>
+          </SheetFooter>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
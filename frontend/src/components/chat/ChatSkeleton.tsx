@@ -0,0 +1,47 @@
+/**
+ * ChatSkeleton.tsx
+ * ----------------
+ * Placeholder shown while a chat's messages are loading.
+ *
+ * Mirrors the layout of `ChatMessage` (avatar, sender label, text lines)
+ * so the page does not jump when the real messages arrive.
+ */
+import { cn } from "@/lib/utils";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const ROWS = [
+  { assistant: false, lines: ["w-2/3"] },
+  { assistant: true, lines: ["w-full", "w-11/12", "w-3/5"] },
+  { assistant: false, lines: ["w-1/2"] },
+  { assistant: true, lines: ["w-full", "w-4/5"] },
+];
+
+export function ChatSkeleton() {
+  return (
+    <div
+      className="flex-1 overflow-hidden p-4"
+      aria-busy="true"
+      aria-label="Loading messages"
+    >
+      {ROWS.map((row, i) => (
+        <div
+          key={i}
+          className={cn(
+            "w-full py-8",
+            row.assistant && "bg-zinc-50 dark:bg-zinc-900/50"
+          )}
+        >
+          <div className="mx-auto flex w-full max-w-3xl gap-4 px-4">
+            <Skeleton className="h-8 w-8 shrink-0 rounded-full" />
+            <div className="flex-1 space-y-3">
+              <Skeleton className="h-4 w-20" />
+              {row.lines.map((width, j) => (
+                <Skeleton key={j} className={cn("h-4", width)} />
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,19 +2,46 @@
 import { useEffect, useRef } from "react";
 import { ChatMessage } from "./ChatMessage";
 import { useChatStore } from "../../store/useChatStore";
+import { regenerateReply } from "@/lib/generate";
+import { getSiblingIds } from "@/lib/messageTree";
+import { useActiveMessages } from "@/hooks/use-active-messages";
+import { useOutboxStore, type OutboxEntry } from "@/store/useOutboxStore";
+import { useAuthStore } from "@/store/useAuthStore";
+import { getMessageStatus, requestReply, retryMessage } from "@/api/outbox";
 
 
+function messageStatus(
+  outbox: OutboxEntry[],
+  messageId: string,
+  isGuest: boolean
+) {
+  const status = getMessageStatus(outbox, messageId);
+  return isGuest && status === "sent" ? undefined : status;
+}
+
 export function ChatWindow() {
-  const { activeChatId, messagesByChatId } = useChatStore();
-  const messages = activeChatId
-    ? messagesByChatId[activeChatId] || []
-    : [];
+  const { activeChatId, messagesByChatId, selectMessageVersion, selectBranch } =
+    useChatStore();
+  const thread = activeChatId ? messagesByChatId[activeChatId] : undefined;
+  const messages = useActiveMessages();
+  const outbox = useOutboxStore((s) => s.entries);
+  // Guest chats never sync, so "Sent" would claim too much; their
+  // queued replies still show as pending or failed
+  const isGuest = useAuthStore((s) => s.isGuest);
   const scrollEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     scrollEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  /**
+   * An edited user message starts a new branch that ends with it;
+   * answer it there.
+   */
+  const handleResubmit = (_prompt: string, messageId: string) => {
+    if (activeChatId) requestReply(activeChatId, messageId);
+  };
+
   return (
     <div className="flex-1 overflow-y-auto p-4">
       {messages.length === 0 ? (
@@ -25,13 +52,45 @@ export function ChatWindow() {
         </div>
       ) : (
         <div className="flex flex-col">
-          {messages.map((msg) => (
-            <ChatMessage key={msg.id} role={msg.role} content={msg.content} id={msg.id} />
-          ))}
+          {messages.map((msg) => {
+            const siblings = thread ? getSiblingIds(thread, msg.id) : [];
+
+            return (
+              <ChatMessage
+                key={msg.id}
+                role={msg.role}
+                content={msg.content}
+                attachments={msg.attachments}
+                id={msg.id}
+                interrupted={msg.interrupted}
+                status={
+                  msg.role === "user"
+                    ? messageStatus(outbox, msg.id, isGuest)
+                    : undefined
+                }
+                onRetry={() => retryMessage(msg.id)}
+                onResubmit={handleResubmit}
+                onRegenerate={(id) => {
+                  if (activeChatId) void regenerateReply(activeChatId, id);
+                }}
+                versionIndex={msg.versionIndex}
+                versionCount={msg.versions?.length}
+                onSelectVersion={(index) => {
+                  if (activeChatId) {
+                    selectMessageVersion(activeChatId, msg.id, index);
+                  }
+                }}
+                branchIndex={siblings.indexOf(msg.id)}
+                branchCount={siblings.length}
+                onSelectBranch={(index) => {
+                  if (activeChatId) selectBranch(activeChatId, siblings[index]);
+                }}
+              />
+            );
+          })}
           <div ref={scrollEndRef} className="h-32 w-full" />
         </div>
       )}
     </div>
   );
 }
-
@@ -0,0 +1,35 @@
+/**
+ * HighlightedCode.tsx
+ * ----------------
+ * Syntax-highlighted code body shared by chat messages and HTML exports,
+ * so both render code the same way.
+ *
+ * Prism styles are applied inline, which also keeps exported HTML
+ * self-contained (no stylesheet to ship alongside).
+ */
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+
+export function HighlightedCode({
+  code,
+  language,
+  ...props
+}: {
+  code: string;
+  language: string;
+}) {
+  return (
+    <SyntaxHighlighter
+      style={vscDarkPlus}
+      language={language}
+      PreTag="div"
+      customStyle={{
+        margin: 0,
+        background: "#1e1e1e",
+      }}
+      {...props}
+    >
+      {code}
+    </SyntaxHighlighter>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * ImageLightbox.tsx
+ * ----------------
+ * Full-size viewer for image attachments, built on the shared Dialog.
+ */
+
+import { Download } from "lucide-react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ImageLightboxProps {
+  src?: string;
+  name: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImageLightbox({
+  src,
+  name,
+  open,
+  onOpenChange,
+}: ImageLightboxProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[95vh] w-auto max-w-[95vw] flex-col items-center gap-3 p-3 sm:max-w-[95vw]">
+        <DialogTitle className="sr-only">{name}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Full-size preview of {name}
+        </DialogDescription>
+
+        {src && (
+          <img
+            src={src}
+            alt={name}
+            className="max-h-[85vh] max-w-full rounded object-contain"
+          />
+        )}
+
+        <div className="flex w-full items-center justify-between gap-4 px-1 text-xs text-zinc-500">
+          <span className="truncate">{name}</span>
+          {src && (
+            <a
+              href={src}
+              download={name}
+              className="flex items-center gap-1 hover:text-zinc-900 dark:hover:text-zinc-100"
+            >
+              <Download className="h-3.5 w-3.5" />
+              Download
+            </a>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
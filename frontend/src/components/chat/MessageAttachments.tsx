@@ -0,0 +1,81 @@
+/**
+ * MessageAttachments.tsx
+ * ----------------
+ * Renders the files attached to a sent message.
+ *
+ * - Images show as thumbnails; clicking opens a full-size lightbox
+ * - Other files show as chips with name and size; clicking downloads
+ * - Bytes come from IndexedDB
+ */
+
+import { useState } from "react";
+import { FileText } from "lucide-react";
+
+import { useAttachmentUrl } from "@/hooks/use-attachment-url";
+import { formatBytes, isImage } from "@/lib/attachments";
+import type { Attachment } from "@/types/chat";
+import { ImageLightbox } from "./ImageLightbox";
+
+function AttachmentItem({ attachment }: { attachment: Attachment }) {
+  const url = useAttachmentUrl(attachment);
+  const [isLightboxOpen, setLightboxOpen] = useState(false);
+
+  if (isImage(attachment)) {
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => setLightboxOpen(true)}
+          disabled={!url}
+          className="block h-24 w-24 cursor-zoom-in overflow-hidden rounded-lg border bg-zinc-100 dark:bg-zinc-800"
+          title={attachment.name}
+          aria-label={`Open ${attachment.name}`}
+        >
+          {url && (
+            <img
+              src={url}
+              alt={attachment.name}
+              className="h-full w-full object-cover"
+            />
+          )}
+        </button>
+
+        <ImageLightbox
+          src={url}
+          name={attachment.name}
+          open={isLightboxOpen}
+          onOpenChange={setLightboxOpen}
+        />
+      </>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      download={attachment.name}
+      className="flex max-w-[220px] items-center gap-2 rounded-lg border bg-background px-3 py-2 text-xs hover:bg-zinc-100 dark:hover:bg-zinc-800"
+      title={attachment.name}
+    >
+      <FileText className="h-4 w-4 shrink-0 text-zinc-500" />
+      <span className="flex min-w-0 flex-col">
+        <span className="truncate font-medium">{attachment.name}</span>
+        <span className="text-zinc-500">{formatBytes(attachment.size)}</span>
+      </span>
+    </a>
+  );
+}
+
+export function MessageAttachments({
+  attachments,
+}: {
+  attachments: Attachment[];
+}) {
+  return (
+    <div className="mb-3 flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <AttachmentItem key={attachment.id} attachment={attachment} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * ImportDialog.tsx
+ * ----------------
+ * Imports conversations exported from ChatGPT, Claude or this app.
+ *
+ * - Drop or pick one or more export files (see `lib/import`)
+ * - Preview every conversation with a checkbox; chats that are already
+ *   in the sidebar are flagged and left unchecked
+ * - Keep the source's branches or only the selected path of each chat
+ * - Controlled by `useUIStore.isImportOpen`
+ */
+
+import { useMemo, useState } from "react";
+import { useDropzone } from "react-dropzone";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  countMessages,
+  importChats,
+  isDuplicate,
+  parseImportFile,
+  type ImportedChat,
+} from "@/lib/import";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useUIStore } from "@/store/useUIStore";
+import { cn } from "@/lib/utils";
+
+export function ImportDialog() {
+  const isImportOpen = useUIStore((s) => s.isImportOpen);
+  const setImportOpen = useUIStore((s) => s.setImportOpen);
+  const existing = useChatListStore((s) => s.chats);
+
+  const [parsed, setParsed] = useState<ImportedChat[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isReading, setReading] = useState(false);
+  const [keepBranches, setKeepBranches] = useState(true);
+
+  // Snapshot when files are read, so importing doesn't relabel the rows
+  const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+
+  const reset = () => {
+    setParsed([]);
+    setSelected(new Set());
+    setErrors([]);
+    setDuplicates(new Set());
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setImportOpen(open);
+    if (!open) reset();
+  };
+
+  const onDrop = async (files: File[]) => {
+    setReading(true);
+    const chats: ImportedChat[] = [];
+    const failures: string[] = [];
+
+    for (const file of files) {
+      try {
+        chats.push(...(await parseImportFile(file)));
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    // Also catches the same chat dropped twice
+    const seen = [...existing, ...parsed.map((p) => p.chat)];
+    const duplicateKeys = new Set<string>();
+    for (const c of chats) {
+      if (isDuplicate(c, seen)) duplicateKeys.add(c.key);
+      seen.push(c.chat);
+    }
+
+    setParsed((prev) => [...prev, ...chats]);
+    setDuplicates((prev) => new Set([...prev, ...duplicateKeys]));
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const c of chats) if (!duplicateKeys.has(c.key)) next.add(c.key);
+      return next;
+    });
+    setErrors(failures);
+    setReading(false);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: (files) => void onDrop(files),
+    accept: { "application/json": [".json"] },
+    multiple: true,
+  });
+
+  const toggle = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  const allSelected = parsed.length > 0 && selected.size === parsed.length;
+  const toggleAll = () =>
+    setSelected(allSelected ? new Set() : new Set(parsed.map((c) => c.key)));
+
+  const chosen = useMemo(
+    () => parsed.filter((c) => selected.has(c.key)),
+    [parsed, selected]
+  );
+
+  const handleImport = () => {
+    importChats(chosen, { keepBranches });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isImportOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import chats</DialogTitle>
+          <DialogDescription>
+            ChatGPT or Claude <code>conversations.json</code>, or a JSON
+            export from this app. Attached files are not imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          {...getRootProps()}
+          className={cn(
+            "flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-6 text-center text-sm text-zinc-500",
+            isDragActive && "border-indigo-500 bg-indigo-50 dark:bg-indigo-950/30"
+          )}
+        >
+          <input {...getInputProps()} />
+          <Upload className="h-5 w-5" />
+          {isReading
+            ? "Reading…"
+            : "Drop export files here, or click to choose"}
+        </div>
+
+        {errors.map((error) => (
+          <p key={error} className="text-sm text-red-500">
+            {error}
+          </p>
+        ))}
+
+        {parsed.length > 0 && (
+          <>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleAll}
+              />
+              {selected.size} of {parsed.length} selected
+            </label>
+
+            <ul className="max-h-72 divide-y overflow-y-auto rounded-lg border dark:divide-zinc-800 dark:border-zinc-800">
+              {parsed.map((c) => (
+                <li key={c.key}>
+                  <label className="flex cursor-pointer items-center gap-3 px-3 py-2 text-sm hover:bg-muted">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(c.key)}
+                      onChange={() => toggle(c.key)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">{c.chat.title}</div>
+                      <div className="text-xs text-zinc-500">
+                        {c.source} ·{" "}
+                        {new Date(c.chat.createdAt).toLocaleDateString()} ·{" "}
+                        {countMessages(c)} messages
+                      </div>
+                    </div>
+                    {duplicates.has(c.key) && (
+                      <span className="shrink-0 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                        Already imported
+                      </span>
+                    )}
+                  </label>
+                </li>
+              ))}
+            </ul>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={keepBranches}
+                onChange={(e) => setKeepBranches(e.target.checked)}
+              />
+              Keep edited and regenerated branches
+            </label>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={chosen.length === 0} onClick={handleImport}>
+            Import {chosen.length > 0 && chosen.length}{" "}
+            {chosen.length === 1 ? "chat" : "chats"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
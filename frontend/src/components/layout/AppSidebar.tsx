@@ -8,7 +8,8 @@
  * - Displays "New Chat" button
  * - Lists all recent chat sessions
  * - Allows switching between chat conversations
- * - Handles chat creation, deletion, and (future) renaming
+ * - Handles chat creation, deletion (to the trash, with undo), and (future) renaming
+ * - Exports a chat as Markdown, JSON or HTML; opens the import dialog
  * - Manages collapsed / expanded sidebar states
  * - Shows user profile section at the bottom
  *
@@ -52,6 +53,9 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
@@ -65,6 +69,7 @@ import {
   MessageSquare,
   Settings,
   MoreHorizontal,
+  Trash2,
 } from "lucide-react";
 
 import { Input } from "@/components/ui/input";
@@ -77,6 +82,14 @@ import {
 
 import { useChatListStore } from "@/store/useChatListStore";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { exportChat, type ExportFormat } from "@/lib/export";
+import { moveAllToTrash, moveToTrash } from "@/lib/trash";
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "html", label: "HTML" },
+];
 
 
 
@@ -98,9 +111,15 @@ function IconTooltip({
 }
 
 export function AppSidebar() {
-  const chats = useChatListStore((s) => s.chats || []);
+  const allChats = useChatListStore((s) => s.chats || []);
+  const chats = React.useMemo(
+    () => allChats.filter((c) => !c.deletedAt),
+    [allChats]
+  );
+  const trashCount = allChats.length - chats.length;
   const user = useAuthStore((s) => s.user);
   const logout = useAuthStore((s) => s.logout);
+  const isGuest = useAuthStore((s) => s.isGuest);
 
 
   const isMobile = useIsMobile();
@@ -108,12 +127,11 @@ export function AppSidebar() {
   const isCollapsed = state === "collapsed";
   const navigate = useNavigate();
   const createNewChat = useChatStore((s) => s.createNewChat);
-  const deleteChat = useChatListStore((s) => s.deleteChat);
-  const clearChat = useChatStore((s) => s.clearChat);
   const renameChat = useChatListStore((s) => s.renameChat);
   const clearAllChat=useChatListStore((s)=>s.clearAll);
   const collapsibleMode = isMobile ? "offcanvas" : "icon";
   const setSearchOpen = useUIStore((s) => s.setSearchOpen);
+  const setImportOpen = useUIStore((s) => s.setImportOpen);
 
 
   return (
@@ -177,6 +195,29 @@ export function AppSidebar() {
                     </SidebarMenuButton>
                   </IconTooltip>
                 </SidebarMenuItem>
+
+                <SidebarMenuItem>
+                  <IconTooltip label="Trash">
+                    <SidebarMenuButton
+                      onClick={() => {
+                        navigate("/trash");
+                        if (isMobile) setOpen(false);
+                      }}
+                      className={`
+                        w-full gap-2
+                        ${isCollapsed ? "justify-center px-0" : "justify-start"}
+                      `}
+                    >
+                      <Trash2 className="h-4 w-4 shrink-0" />
+                      {!isCollapsed && <span>Trash</span>}
+                      {!isCollapsed && trashCount > 0 && (
+                        <span className="ml-auto text-xs text-zinc-500">
+                          {trashCount}
+                        </span>
+                      )}
+                    </SidebarMenuButton>
+                  </IconTooltip>
+                </SidebarMenuItem>
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
@@ -217,11 +258,28 @@ export function AppSidebar() {
                                 Rename
                               </DropdownMenuItem>
 
+                              <DropdownMenuSub>
+                                <DropdownMenuSubTrigger>Export</DropdownMenuSubTrigger>
+                                <DropdownMenuSubContent>
+                                  {EXPORT_FORMATS.map(({ format, label }) => (
+                                    <DropdownMenuItem
+                                      key={format}
+                                      onClick={() => {
+                                        exportChat(chat.id, format).catch((err) =>
+                                          console.error("Export failed", err)
+                                        );
+                                      }}
+                                    >
+                                      {label}
+                                    </DropdownMenuItem>
+                                  ))}
+                                </DropdownMenuSubContent>
+                              </DropdownMenuSub>
+
                               <DropdownMenuItem
                                 className="text-red-500 focus:text-red-500"
                                 onClick={() => {
-                                  deleteChat(chat.id);
-                                  clearChat(chat.id);
+                                  moveToTrash([chat.id]);
                                   navigate("/");
                                 }}
                               >
@@ -275,6 +333,15 @@ export function AppSidebar() {
               </div>
             )}
 
+            {!isCollapsed && isGuest && (
+              <div className="ml-2 flex flex-col text-sm">
+                <span className="truncate font-medium">Guest</span>
+                <span className="truncate text-xs text-zinc-500">
+                  Stored in this browser only
+                </span>
+              </div>
+            )}
+
             {!isCollapsed && (
               <Settings className="ml-auto h-4 w-4 text-zinc-400" />
             )}
@@ -282,12 +349,35 @@ export function AppSidebar() {
         </DropdownMenuTrigger>
 
         <DropdownMenuContent side="right" align="end">
+          <DropdownMenuItem onClick={() => navigate("/settings")}>
+            ⚙️ Settings
+          </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={() => setImportOpen(true)}>
+            📥 Import chats
+          </DropdownMenuItem>
+
           <DropdownMenuItem
-            className="text-red-500 focus:text-red-500"
-            onClick={logout}
+            onClick={() => {
+              moveAllToTrash();
+              navigate("/");
+            }}
           >
-            🚪 Logout
+            🗑️ Delete all chats
           </DropdownMenuItem>
+
+          {isGuest ? (
+            <DropdownMenuItem onClick={() => navigate("/login")}>
+              🔑 Sign in
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem
+              className="text-red-500 focus:text-red-500"
+              onClick={logout}
+            >
+              🚪 Logout
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
     </SidebarMenuItem>
@@ -0,0 +1,28 @@
+/**
+ * GuestBanner.tsx
+ * ----------------
+ * Tells guests that their chats only live in this browser, with a way
+ * to sign in (which offers to move them into the account).
+ */
+
+import { Link } from "react-router-dom";
+import { useAuthStore } from "@/store/useAuthStore";
+
+export function GuestBanner() {
+  const isGuest = useAuthStore((s) => s.isGuest);
+
+  if (!isGuest) return null;
+
+  return (
+    <div
+      role="note"
+      className="flex shrink-0 flex-wrap items-center justify-center gap-x-2 border-b border-amber-200 bg-amber-50 px-4 py-2 text-center text-sm text-amber-900 dark:border-amber-900/50 dark:bg-amber-950/40 dark:text-amber-200"
+    >
+      You're using guest mode. Chats are stored only in this browser and
+      are not synced.
+      <Link to="/login" className="font-medium underline underline-offset-2">
+        Sign in to keep them
+      </Link>
+    </div>
+  );
+}
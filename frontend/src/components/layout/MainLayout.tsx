@@ -3,12 +3,21 @@
 import { useEffect } from "react";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
+import { Toaster } from "./Toaster";
+import { GuestBanner } from "./GuestBanner";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
+import { ChatSettingsSheet } from "@/components/chat/ChatSettingsSheet";
+import { ModelPicker } from "./ModelPicker";
 import { useUIStore } from "@/store/useUIStore";
+import { useChatListSync } from "@/hooks/use-chat-sync";
+import { useApplyPreferences } from "@/hooks/use-apply-preferences";
 
 export function MainLayout({ children }: { children: React.ReactNode }) {
   const setSearchOpen = useUIStore((s) => s.setSearchOpen);
 
+  useChatListSync();
+  useApplyPreferences();
+
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       if ((e.ctrlKey || e.metaKey) && e.key === "k") {
@@ -31,24 +40,22 @@ export function MainLayout({ children }: { children: React.ReactNode }) {
             <div className="flex items-center gap-3">
               <SidebarTrigger />
 
-              <div className="ml-2 flex items-center gap-2">
-                <span className="text-sm font-medium text-zinc-500">
-                  GPT-5.2
-                </span>
-                <span className="rounded-full bg-zinc-100 px-2 py-0.5 text-[10px] font-bold dark:bg-zinc-800">
-                  PRO
-                </span>
-              </div>
+              <ModelPicker />
             </div>
 
             <div className="flex items-center gap-2">
+              <ChatSettingsSheet />
               <ThemeToggle />
             </div>
           </header>
 
+          <GuestBanner />
+
           <section className="flex-1 flex flex-col min-h-0">
             {children}
           </section>
+
+          <Toaster />
         </main>
       </div>
     </SidebarProvider>
@@ -0,0 +1,132 @@
+/**
+ * ModelPicker.tsx
+ * ----------------
+ * Header dropdown for choosing the model of the current chat.
+ *
+ * Responsibilities:
+ * - List models from every configured provider, grouped by provider
+ * - Show context length and capabilities (vision, tools) per model
+ * - Store the choice on the active `ChatSession`, so switching chats
+ *   restores each chat's model
+ * - Without an active chat, change the user's default model instead
+ *   (new chats start with it)
+ */
+
+import { ChevronDown, Check, Eye, Wrench } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useChatModel } from "@/hooks/use-chat-model";
+import { listProviders, type ModelInfo, type ModelRef } from "@/lib/providers";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+
+function formatContext(tokens?: number) {
+  if (!tokens) return null;
+  return tokens >= 1024 ? `${Math.round(tokens / 1024)}K` : String(tokens);
+}
+
+const sameModel = (a: ModelRef, b: ModelRef) =>
+  a.providerId === b.providerId && a.modelId === b.modelId;
+
+export function ModelPicker() {
+  const {
+    model: current,
+    info: currentInfo,
+    models,
+    errors,
+    isLoading,
+  } = useChatModel();
+
+  const activeChatId = useChatStore((s) => s.activeChatId);
+  const setChatModel = useChatListStore((s) => s.setChatModel);
+  const setDefaultModel = useSettingsStore((s) => s.setDefaultModel);
+
+  const handleSelect = (model: ModelInfo) => {
+    const ref = { providerId: model.providerId, modelId: model.modelId };
+    if (activeChatId) setChatModel(activeChatId, ref);
+    else setDefaultModel(ref);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="ml-2 flex items-center gap-1 rounded-lg px-2 py-1 text-sm font-medium text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+        >
+          <span className="max-w-[200px] truncate">
+            {currentInfo?.label ?? current.modelId}
+          </span>
+          <ChevronDown className="h-4 w-4" />
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="start" className="w-72">
+        {listProviders().map((provider) => {
+          const providerModels = models.filter(
+            (m) => m.providerId === provider.id
+          );
+          const error = errors[provider.id];
+          if (providerModels.length === 0 && !error) return null;
+
+          return (
+            <div key={provider.id}>
+              <DropdownMenuLabel className="text-xs text-zinc-500">
+                {provider.label}
+              </DropdownMenuLabel>
+
+              {error && (
+                <p className="px-2 pb-1.5 text-xs text-red-500">{error}</p>
+              )}
+
+              {providerModels.map((model) => (
+                <DropdownMenuItem
+                  key={model.modelId}
+                  onClick={() => handleSelect(model)}
+                  className="flex items-center gap-2"
+                >
+                  <span className="flex-1 truncate">{model.label}</span>
+
+                  {formatContext(model.contextLength) && (
+                    <span className="text-[10px] text-zinc-500 tabular-nums">
+                      {formatContext(model.contextLength)}
+                    </span>
+                  )}
+                  {model.capabilities.vision && (
+                    <Eye className="h-3.5 w-3.5 text-zinc-500" aria-label="Vision" />
+                  )}
+                  {model.capabilities.tools && (
+                    <Wrench className="h-3.5 w-3.5 text-zinc-500" aria-label="Tools" />
+                  )}
+                  <Check
+                    className={
+                      sameModel(model, current) ? "h-4 w-4" : "h-4 w-4 opacity-0"
+                    }
+                  />
+                </DropdownMenuItem>
+              ))}
+
+              <DropdownMenuSeparator />
+            </div>
+          );
+        })}
+
+        <p className="px-2 py-1.5 text-[10px] text-zinc-500">
+          {isLoading
+            ? "Loading models…"
+            : activeChatId
+              ? "Applies to this chat only."
+              : "Default for new chats."}
+        </p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
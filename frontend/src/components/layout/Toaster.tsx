@@ -0,0 +1,62 @@
+/**
+ * Toaster.tsx
+ * ----------------
+ * Shows `useUIStore.toast` at the bottom of the screen for a few
+ * seconds (or its own `durationMs`), with its action button (e.g. "Undo") when it has one.
+ */
+
+import { useEffect } from "react";
+import { X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useUIStore } from "@/store/useUIStore";
+
+const TOAST_DURATION_MS = 6_000;
+
+export function Toaster() {
+  const toast = useUIStore((s) => s.toast);
+  const dismissToast = useUIStore((s) => s.dismissToast);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(
+      () => dismissToast(toast.id),
+      toast.durationMs ?? TOAST_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [toast, dismissToast]);
+
+  if (!toast) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-zinc-900 px-4 py-2 text-sm text-white shadow-lg dark:bg-zinc-100 dark:text-zinc-900"
+    >
+      <span>{toast.message}</span>
+
+      {toast.action && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 font-semibold text-indigo-300 hover:bg-white/10 hover:text-indigo-200 dark:text-indigo-600 dark:hover:bg-black/5"
+          onClick={() => {
+            toast.action?.onAction();
+            dismissToast(toast.id);
+          }}
+        >
+          {toast.action.label}
+        </Button>
+      )}
+
+      <button
+        type="button"
+        aria-label="Dismiss"
+        className="opacity-60 hover:opacity-100"
+        onClick={() => dismissToast(toast.id)}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -42,7 +42,8 @@ function searchChats(query: string, chats: any[]) {
 
 export function SearchModal() {
   const { isSearchOpen, setSearchOpen } = useUIStore();
-  const chats = useChatListStore((s) => s.chats);
+  const allChats = useChatListStore((s) => s.chats);
+  const chats = useMemo(() => allChats.filter((c) => !c.deletedAt), [allChats]);
   const navigate = useNavigate();
 
   const [query, setQuery] = useState("");
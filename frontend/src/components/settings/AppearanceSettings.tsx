@@ -0,0 +1,72 @@
+/**
+ * AppearanceSettings.tsx
+ * ----------------
+ * Theme and text size (see `usePreferencesStore`). Both apply at once.
+ */
+
+import {
+  usePreferencesStore,
+  type FontSize,
+  type ThemePreference,
+} from "@/store/usePreferencesStore";
+import { Field } from "./Field";
+
+const THEME_LABELS: Record<ThemePreference, string> = {
+  system: "Match system",
+  light: "Light",
+  dark: "Dark",
+};
+
+const FONT_SIZE_LABELS: Record<FontSize, string> = {
+  small: "Small",
+  medium: "Default",
+  large: "Large",
+};
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm dark:bg-input/30";
+
+export function AppearanceSettingsForm() {
+  const theme = usePreferencesStore((s) => s.theme);
+  const fontSize = usePreferencesStore((s) => s.fontSize);
+  const setTheme = usePreferencesStore((s) => s.setTheme);
+  const setFontSize = usePreferencesStore((s) => s.setFontSize);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field label="Theme">
+        {(id) => (
+          <select
+            id={id}
+            value={theme}
+            onChange={(e) => setTheme(e.target.value as ThemePreference)}
+            className={selectClassName}
+          >
+            {Object.entries(THEME_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </Field>
+
+      <Field label="Text size" hint="Scales the whole interface.">
+        {(id) => (
+          <select
+            id={id}
+            value={fontSize}
+            onChange={(e) => setFontSize(e.target.value as FontSize)}
+            className={selectClassName}
+          >
+            {Object.entries(FONT_SIZE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+      </Field>
+    </div>
+  );
+}
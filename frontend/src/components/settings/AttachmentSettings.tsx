@@ -0,0 +1,59 @@
+/**
+ * AttachmentSettings.tsx
+ * ----------------
+ * Limits applied to images before they are attached to a message.
+ * Larger images are downscaled and re-encoded in the browser.
+ */
+
+import { Input } from "@/components/ui/input";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { Field } from "./Field";
+
+const MB = 1024 * 1024;
+
+export function AttachmentSettingsForm() {
+  const imageLimits = useSettingsStore((s) => s.imageLimits);
+  const updateImageLimits = useSettingsStore((s) => s.updateImageLimits);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field
+        label="Max image size (px)"
+        hint="Longest edge; larger images are scaled down."
+      >
+        {(id) => (
+          <Input
+            id={id}
+            type="number"
+            min={256}
+            step={128}
+            value={imageLimits.maxDimension}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) updateImageLimits({ maxDimension: value });
+            }}
+          />
+        )}
+      </Field>
+
+      <Field
+        label="Max image file size (MB)"
+        hint="Larger files are re-encoded even if small enough in pixels."
+      >
+        {(id) => (
+          <Input
+            id={id}
+            type="number"
+            min={0.5}
+            step={0.5}
+            value={imageLimits.maxBytes / MB}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value > 0) updateImageLimits({ maxBytes: value * MB });
+            }}
+          />
+        )}
+      </Field>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * BackupSettings.tsx
+ * ----------------
+ * Download a backup of the whole workspace, or restore one by merging
+ * it in or replacing everything (see `lib/backup`).
+ */
+
+import { useRef, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  downloadBackup,
+  readBackup,
+  restoreBackup,
+  type RestoreMode,
+  type WorkspaceBackup,
+} from "@/lib/backup";
+
+type Status =
+  | { kind: "idle" }
+  | { kind: "busy"; label: string }
+  | { kind: "done"; message: string }
+  | { kind: "error"; message: string };
+
+export function BackupSettingsForm() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [status, setStatus] = useState<Status>({ kind: "idle" });
+
+  const run = async (label: string, task: () => Promise<string | void>) => {
+    setStatus({ kind: "busy", label });
+    try {
+      const message = await task();
+      setStatus(message ? { kind: "done", message } : { kind: "idle" });
+    } catch (err) {
+      setStatus({
+        kind: "error",
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    void run("Reading backup…", async () => {
+      setBackup(await readBackup(file));
+    });
+  };
+
+  const handleRestore = () => {
+    if (!backup) return;
+    void run("Restoring…", async () => {
+      await restoreBackup(backup, mode);
+      setBackup(null);
+      return `Restored ${backup.chats.length} chats.`;
+    });
+  };
+
+  const isBusy = status.kind === "busy";
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-xs text-zinc-500">
+        Chats, messages, attachments and settings, including API keys. Keep
+        the file somewhere safe before clearing browser data.
+      </p>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          disabled={isBusy}
+          onClick={() =>
+            void run("Preparing backup…", async () => {
+              await downloadBackup();
+              return "Backup downloaded.";
+            })
+          }
+        >
+          Download backup
+        </Button>
+
+        <Button
+          variant="outline"
+          disabled={isBusy}
+          onClick={() => fileInput.current?.click()}
+        >
+          Restore…
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {backup && (
+        <div className="flex flex-col gap-3 rounded-lg border p-3 text-sm dark:border-zinc-800">
+          <p>
+            Backup from {new Date(backup.createdAt).toLocaleString()} with{" "}
+            {backup.chats.length} chats and {backup.attachments.length}{" "}
+            attachments.
+          </p>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === "merge"}
+              onChange={() => setMode("merge")}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium">Merge</span> — add what is
+              missing; keep your current chats and settings.
+            </span>
+          </label>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="radio"
+              name="restore-mode"
+              checked={mode === "replace"}
+              onChange={() => setMode("replace")}
+              className="mt-1"
+            />
+            <span>
+              <span className="font-medium">Replace</span> — delete chats
+              not in the backup and restore its settings.
+            </span>
+          </label>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setBackup(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={mode === "replace" ? "destructive" : "default"}
+              disabled={isBusy}
+              onClick={handleRestore}
+            >
+              Restore
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {status.kind === "busy" && (
+        <p className="text-xs text-zinc-500">{status.label}</p>
+      )}
+      {status.kind === "done" && (
+        <p className="text-xs text-green-600">{status.message}</p>
+      )}
+      {status.kind === "error" && (
+        <p className="text-xs text-red-500">{status.message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * DataSettings.tsx
+ * ----------------
+ * Bulk actions on the account's chats: import, move all to the trash,
+ * bring in leftover local chats (see `lib/localChats`), and wipe everything this browser keeps
+ * for the account (see `deleteLocalData`).
+ */
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { deleteLocalData } from "@/lib/accounts";
+import { nextLocalChats } from "@/lib/localChats";
+import { moveAllToTrash } from "@/lib/trash";
+import { useAuthStore } from "@/store/useAuthStore";
+import { useOutboxStore } from "@/store/useOutboxStore";
+import { useUIStore } from "@/store/useUIStore";
+
+export function DataSettingsForm() {
+  const setImportOpen = useUIStore((s) => s.setImportOpen);
+  const setLocalChatsSource = useUIStore((s) => s.setLocalChatsSource);
+  const isGuest = useAuthStore((s) => s.isGuest);
+  // Local chats left behind by a "Not now" at sign-in
+  const localChats = isGuest ? undefined : nextLocalChats();
+  const logout = useAuthStore((s) => s.logout);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleDeleteLocalData = async () => {
+    const unsent = useOutboxStore.getState().entries.length;
+    const warning =
+      unsent > 0
+        ? `\n\n${unsent} changes haven't reached the server yet and will be lost.`
+        : "";
+    const confirmed = confirm(
+      "Delete all chats, attachments and settings stored in this browser " +
+        "for your account? Synced chats come back the next time you sign in." +
+        warning
+    );
+    if (!confirmed) return;
+
+    setIsDeleting(true);
+    try {
+      await deleteLocalData();
+    } finally {
+      logout();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => setImportOpen(true)}>
+          Import chats…
+        </Button>
+        <Button variant="outline" onClick={moveAllToTrash}>
+          Delete all chats
+        </Button>
+        {localChats !== undefined && (
+          <Button
+            variant="outline"
+            onClick={() => setLocalChatsSource(localChats)}
+          >
+            Move local chats…
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 rounded-lg border border-red-200 p-3 dark:border-red-900/50">
+        <p className="text-sm font-medium">Delete local data</p>
+        <p className="text-xs text-zinc-500">
+          Removes this account's chats, attachments, settings and queued
+          changes from this browser and signs you out. Nothing is deleted
+          from the server.
+        </p>
+        <Button
+          variant="destructive"
+          className="self-start"
+          disabled={isDeleting}
+          onClick={() => void handleDeleteLocalData()}
+        >
+          {isDeleting ? "Deleting…" : "Delete local data"}
+        </Button>
+      </div>
+    </div>
+  );
+}
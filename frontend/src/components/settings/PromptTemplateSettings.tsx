@@ -0,0 +1,100 @@
+/**
+ * PromptTemplateSettings.tsx
+ * ----------------
+ * Manages the prompt templates offered in the composer: add one, edit
+ * its title and text in place, or delete it.
+ */
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { usePromptTemplateStore } from "@/store/usePromptTemplateStore";
+
+export function PromptTemplateSettingsForm() {
+  const templates = usePromptTemplateStore((s) => s.templates);
+  const addTemplate = usePromptTemplateStore((s) => s.addTemplate);
+  const updateTemplate = usePromptTemplateStore((s) => s.updateTemplate);
+  const deleteTemplate = usePromptTemplateStore((s) => s.deleteTemplate);
+  const [title, setTitle] = useState("");
+  const [text, setText] = useState("");
+
+  const canAdd = title.trim() !== "" && text.trim() !== "";
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    addTemplate({ title: title.trim(), text });
+    setTitle("");
+    setText("");
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      {templates.length === 0 && (
+        <p className="text-sm text-zinc-500">
+          No templates yet. Saved templates can be inserted from the
+          composer.
+        </p>
+      )}
+
+      {templates.map((template) => (
+        <div
+          key={template.id}
+          className="flex flex-col gap-2 rounded-lg border p-3 dark:border-zinc-800"
+        >
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Template title"
+              value={template.title}
+              onChange={(e) =>
+                updateTemplate(template.id, { title: e.target.value })
+              }
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={`Delete ${template.title}`}
+              onClick={() => deleteTemplate(template.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            aria-label="Template text"
+            rows={3}
+            value={template.text}
+            onChange={(e) =>
+              updateTemplate(template.id, { text: e.target.value })
+            }
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-col gap-2">
+        <Input
+          placeholder="Title"
+          aria-label="New template title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+        <Textarea
+          placeholder="Prompt text"
+          aria-label="New template text"
+          rows={3}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <Button
+          variant="outline"
+          className="self-start"
+          disabled={!canAdd}
+          onClick={handleAdd}
+        >
+          Add template
+        </Button>
+      </div>
+    </div>
+  );
+}
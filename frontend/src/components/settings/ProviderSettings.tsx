@@ -0,0 +1,102 @@
+/**
+ * ProviderSettings.tsx
+ * ----------------
+ * UI for configuring model providers and the default model.
+ *
+ * Responsibilities:
+ * - Edit base URL and API key of the OpenAI-compatible adapter
+ * - Pick the default model new chats start with, from all providers
+ * - Apply every change immediately through `useSettingsStore`
+ */
+
+import { Input } from "@/components/ui/input";
+import { useModels } from "@/hooks/use-models";
+import { listProviders } from "@/lib/providers";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { Field } from "./Field";
+
+export function ProviderSettingsForm() {
+  const openai = useSettingsStore((s) => s.openai);
+  const updateOpenAI = useSettingsStore((s) => s.updateOpenAI);
+  const defaultModel = useSettingsStore((s) => s.defaultModel);
+  const setDefaultModel = useSettingsStore((s) => s.setDefaultModel);
+  const { models, errors } = useModels();
+
+  const modelKey = `${defaultModel.providerId}/${defaultModel.modelId}`;
+  const hasDefault = models.some(
+    (m) => `${m.providerId}/${m.modelId}` === modelKey
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field
+        label="OpenAI-compatible base URL"
+        hint="Include the API version, e.g. http://localhost:11434/v1. Leave empty to disable."
+      >
+        {(id) => (
+          <Input
+            id={id}
+            value={openai.baseUrl}
+            onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+            placeholder="https://api.openai.com/v1"
+          />
+        )}
+      </Field>
+
+      <Field label="API key" hint="Leave empty for local servers.">
+        {(id) => (
+          <Input
+            id={id}
+            type="password"
+            autoComplete="off"
+            value={openai.apiKey}
+            onChange={(e) => updateOpenAI({ apiKey: e.target.value })}
+          />
+        )}
+      </Field>
+
+      <Field
+        label="Default model"
+        hint={errors.openai ?? "New chats start with this model."}
+      >
+        {(id) => (
+          <select
+            id={id}
+            value={modelKey}
+            onChange={(e) => {
+              const model = models.find(
+                (m) => `${m.providerId}/${m.modelId}` === e.target.value
+              );
+              if (model) {
+                setDefaultModel({
+                  providerId: model.providerId,
+                  modelId: model.modelId,
+                });
+              }
+            }}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm dark:bg-input/30"
+          >
+            {/* Keep the saved default visible even if its provider is offline */}
+            {!hasDefault && (
+              <option value={modelKey}>{defaultModel.modelId}</option>
+            )}
+            {listProviders().map((provider) => (
+              <optgroup key={provider.id} label={provider.label}>
+                {models
+                  .filter((m) => m.providerId === provider.id)
+                  .map((m) => (
+                    <option
+                      key={m.modelId}
+                      value={`${m.providerId}/${m.modelId}`}
+                    >
+                      {m.label}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        )}
+      </Field>
+    </div>
+  );
+}
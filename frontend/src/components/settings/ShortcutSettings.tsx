@@ -0,0 +1,66 @@
+/**
+ * ShortcutSettings.tsx
+ * ----------------
+ * The app's keyboard shortcuts, and whether Enter sends a message.
+ */
+
+import { usePreferencesStore } from "@/store/usePreferencesStore";
+
+const MOD = /Mac|iPhone|iPad/.test(navigator.userAgent) ? "⌘" : "Ctrl";
+
+function Keys({ keys }: { keys: string[] }) {
+  return (
+    <span className="flex gap-1">
+      {keys.map((key) => (
+        <kbd
+          key={key}
+          className="rounded border bg-zinc-50 px-1.5 py-0.5 font-mono text-xs dark:border-zinc-700 dark:bg-zinc-800"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+export function ShortcutSettingsForm() {
+  const sendWithEnter = usePreferencesStore((s) => s.sendWithEnter);
+  const setSendWithEnter = usePreferencesStore((s) => s.setSendWithEnter);
+
+  const shortcuts: { label: string; keys: string[] }[] = [
+    { label: "Search chats", keys: [MOD, "K"] },
+    {
+      label: "Send message",
+      keys: sendWithEnter ? ["Enter"] : [MOD, "Enter"],
+    },
+    {
+      label: "New line",
+      keys: sendWithEnter ? ["Shift", "Enter"] : ["Enter"],
+    },
+  ];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <ul className="divide-y rounded-lg border text-sm dark:divide-zinc-800 dark:border-zinc-800">
+        {shortcuts.map(({ label, keys }) => (
+          <li
+            key={label}
+            className="flex items-center justify-between px-4 py-2"
+          >
+            {label}
+            <Keys keys={keys} />
+          </li>
+        ))}
+      </ul>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={sendWithEnter}
+          onChange={(e) => setSendWithEnter(e.target.checked)}
+        />
+        Send with Enter ({MOD}+Enter always sends)
+      </label>
+    </div>
+  );
+}
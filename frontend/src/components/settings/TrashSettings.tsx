@@ -0,0 +1,36 @@
+/**
+ * TrashSettings.tsx
+ * ----------------
+ * How long deleted chats stay in the trash before they are removed for
+ * good (see `lib/trash`).
+ */
+
+import { Input } from "@/components/ui/input";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { Field } from "./Field";
+
+export function TrashSettingsForm() {
+  const retentionDays = useSettingsStore((s) => s.trashRetentionDays);
+  const setRetentionDays = useSettingsStore((s) => s.setTrashRetentionDays);
+
+  return (
+    <Field
+      label="Keep deleted chats for (days)"
+      hint="Older chats in the trash are deleted permanently."
+    >
+      {(id) => (
+        <Input
+          id={id}
+          type="number"
+          min={1}
+          step={1}
+          value={retentionDays}
+          onChange={(e) => {
+            const value = Math.floor(Number(e.target.value));
+            if (value > 0) setRetentionDays(value);
+          }}
+        />
+      )}
+    </Field>
+  );
+}
@@ -2,9 +2,12 @@
 
 import { useTheme } from "next-themes";
 import { Moon, Sun } from "lucide-react";
+import { usePreferencesStore } from "@/store/usePreferencesStore";
 
 export function ThemeToggle() {
-  const { theme, setTheme } = useTheme();
+  // Shows what is on screen, but saves the choice as a preference
+  const { resolvedTheme: theme } = useTheme();
+  const setTheme = usePreferencesStore((s) => s.setTheme);
 
   return (
     <button
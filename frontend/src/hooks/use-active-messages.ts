@@ -0,0 +1,16 @@
+import { useMemo } from "react"
+
+import { getActivePath } from "@/lib/messageTree"
+import { useChatStore } from "@/store/useChatStore"
+
+/**
+ * Messages on the active branch of the active chat, oldest first.
+ * Memoized on the thread so unrelated store updates don't re-render.
+ */
+export function useActiveMessages() {
+  const thread = useChatStore((s) =>
+    s.activeChatId ? s.messagesByChatId[s.activeChatId] : undefined
+  )
+
+  return useMemo(() => getActivePath(thread), [thread])
+}
@@ -0,0 +1,21 @@
+import { useEffect } from "react"
+import { useTheme } from "next-themes"
+import { FONT_SIZE_PX, usePreferencesStore } from "@/store/usePreferencesStore"
+
+/**
+ * Applies `usePreferencesStore` to the page as soon as it changes:
+ * the theme through next-themes, the text size as the root font size.
+ */
+export function useApplyPreferences() {
+  const theme = usePreferencesStore((s) => s.theme)
+  const fontSize = usePreferencesStore((s) => s.fontSize)
+  const { setTheme } = useTheme()
+
+  useEffect(() => {
+    setTheme(theme)
+  }, [theme, setTheme])
+
+  useEffect(() => {
+    document.documentElement.style.fontSize = `${FONT_SIZE_PX[fontSize]}px`
+  }, [fontSize])
+}
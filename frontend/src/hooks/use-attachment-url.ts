@@ -0,0 +1,30 @@
+import * as React from "react"
+
+import { loadAttachmentBlob } from "@/lib/attachments"
+import type { Attachment } from "@/types/chat"
+
+/**
+ * Object URL for an attachment's bytes in IndexedDB.
+ * Undefined while loading or when the bytes are missing; revoked on unmount.
+ */
+export function useAttachmentUrl(attachment: Attachment) {
+  const [url, setUrl] = React.useState<string>()
+
+  React.useEffect(() => {
+    let objectUrl: string | undefined
+    let cancelled = false
+
+    loadAttachmentBlob(attachment).then((blob) => {
+      if (cancelled || !blob) return
+      objectUrl = URL.createObjectURL(blob)
+      setUrl(objectUrl)
+    })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [attachment])
+
+  return url
+}
@@ -0,0 +1,25 @@
+import { useModels } from "@/hooks/use-models"
+import { useChatListStore } from "@/store/useChatListStore"
+import { useChatStore } from "@/store/useChatStore"
+import { useSettingsStore } from "@/store/useSettingsStore"
+
+/**
+ * Model of the active chat (or the default model when no chat is open),
+ * plus its details from the provider's model list when available.
+ */
+export function useChatModel() {
+  const { models, errors, isLoading } = useModels()
+
+  const activeChatId = useChatStore((s) => s.activeChatId)
+  const chatModel = useChatListStore(
+    (s) => s.chats.find((c) => c.id === activeChatId)?.model
+  )
+  const defaultModel = useSettingsStore((s) => s.defaultModel)
+
+  const model = chatModel ?? defaultModel
+  const info = models.find(
+    (m) => m.providerId === model.providerId && m.modelId === model.modelId
+  )
+
+  return { model, info, models, errors, isLoading }
+}
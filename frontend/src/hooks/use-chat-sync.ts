@@ -0,0 +1,64 @@
+import * as React from "react"
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query"
+
+import { listChats, listMessages } from "@/api/chats"
+import { chatKeys } from "@/api/queryClient"
+import { reconcileChats, reconcileMessages } from "@/api/sync"
+import { useAuthStore } from "@/store/useAuthStore"
+import { useChatListStore } from "@/store/useChatListStore"
+import { useChatStore } from "@/store/useChatStore"
+
+/**
+ * Pulls the chat list from the server and reconciles it into the sidebar.
+ * Mount once; React Query refreshes it on focus and reconnect. Guests
+ * have nothing on the server.
+ */
+export function useChatListSync() {
+  const isGuest = useAuthStore((s) => s.isGuest)
+  const { data, isLoading, error } = useQuery({
+    queryKey: chatKeys.list(),
+    queryFn: listChats,
+    enabled: !isGuest,
+  })
+
+  React.useEffect(() => {
+    if (data) reconcileChats(data)
+  }, [data])
+
+  return { isLoading, error }
+}
+
+/**
+ * Pulls every page of a chat's messages and merges them into its thread.
+ * Chats the server has not confirmed yet are skipped.
+ */
+export function useMessageSync(chatId: string | null) {
+  const isSynced = useChatListStore((s) =>
+    s.chats.some((c) => c.id === chatId && c.syncedAt)
+  )
+  // Merging waits until the local history is in memory
+  const isLoaded = useChatStore((s) => !!chatId && !!s.messagesByChatId[chatId])
+
+  const { data, error, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useInfiniteQuery({
+      queryKey: chatKeys.messages(chatId ?? ""),
+      queryFn: ({ pageParam }) => listMessages(chatId!, pageParam),
+      initialPageParam: null as string | null,
+      getNextPageParam: (page) => page.nextCursor,
+      enabled: !!chatId && isSynced,
+    })
+
+  React.useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage) void fetchNextPage()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
+  React.useEffect(() => {
+    if (!chatId || !data || hasNextPage || !isLoaded) return
+    reconcileMessages(
+      chatId,
+      data.pages.flatMap((page) => page.items)
+    )
+  }, [chatId, data, hasNextPage, isLoaded])
+
+  return { isLoading: isLoading && isSynced, error }
+}
@@ -0,0 +1,39 @@
+import * as React from "react"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { modelKeys } from "@/api/queryClient"
+import { listAllModels } from "@/lib/providers"
+import { useSettingsStore } from "@/store/useSettingsStore"
+
+const REFRESH_DELAY_MS = 300
+// Model lists rarely change; every consumer shares the cached one
+const STALE_MS = 5 * 60_000
+
+/**
+ * Models offered by all configured providers, from one list shared by
+ * every caller. Re-fetches (debounced, so typing a URL or key doesn't
+ * fire a request per keystroke) whenever the connection settings change.
+ */
+export function useModels() {
+  const openai = useSettingsStore((s) => s.openai)
+  const [settled, setSettled] = React.useState(openai)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSettled(openai), REFRESH_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [openai])
+
+  const { data, isPending, isPlaceholderData } = useQuery({
+    queryKey: modelKeys.list(settled.baseUrl, settled.apiKey),
+    queryFn: listAllModels,
+    staleTime: STALE_MS,
+    // The old connection's list stays up while the new one loads
+    placeholderData: keepPreviousData,
+  })
+
+  return {
+    models: data?.models ?? [],
+    errors: data?.errors ?? {},
+    isLoading: isPending || isPlaceholderData || settled !== openai,
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * accounts.ts
+ * ----------------
+ * Switches every persisted store to another account's data.
+ *
+ * Responsibilities:
+ * - Save what is pending for the account being left, then unload it
+ *   from memory without deleting it
+ * - Point all storage at the new account's namespace (see `namespace`)
+ *   and hydrate the stores from it
+ * - Drop cached server data so sync refetches for the new account
+ * - Delete everything an account keeps in this browser
+ *
+ * The reset is applied as a remote change (`lib/remoteChanges`): the
+ * emptied stores must not be pushed to the server or other tabs as
+ * deletions.
+ */
+import { queryClient } from "@/api/queryClient";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { useDraftStore } from "@/store/useDraftStore";
+import { useOutboxStore } from "@/store/useOutboxStore";
+import { usePreferencesStore } from "@/store/usePreferencesStore";
+import { usePromptTemplateStore } from "@/store/usePromptTemplateStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { useUIStore } from "@/store/useUIStore";
+import { ATTACHMENTS_DB_NAME } from "./attachments";
+import { CHAT_DB_NAME } from "./chatStorage";
+import { deleteDatabase } from "./idb";
+import {
+  getNamespace,
+  scopedName,
+  setNamespace,
+  withWritesPaused,
+} from "./namespace";
+import { applyRemote } from "./remoteChanges";
+
+// Stores persisted to namespaced localStorage, hydrated in this order
+const localStores = [
+  useChatListStore,
+  useOutboxStore,
+  useSettingsStore,
+  useDraftStore,
+  usePreferencesStore,
+  usePromptTemplateStore,
+];
+
+/**
+ * Loads the data of `userId` (null: data kept without an account).
+ * Resolves once chat history is hydrated and the previous account's
+ * pending writes are saved.
+ */
+export async function switchAccount(userId: string | null) {
+  if (userId === getNamespace()) return;
+
+  let saved: Promise<void> = Promise.resolve();
+
+  applyRemote(() => {
+    saved = useChatStore.getState().unloadAll();
+    useUIStore.setState({ remoteStreamingChatIds: [] });
+
+    // Back to defaults without writing them over the old account's data
+    withWritesPaused(() => {
+      useChatListStore.setState(useChatListStore.getInitialState(), true);
+      useOutboxStore.setState(useOutboxStore.getInitialState(), true);
+      useSettingsStore.setState(useSettingsStore.getInitialState(), true);
+      useDraftStore.setState(useDraftStore.getInitialState(), true);
+      usePreferencesStore.setState(
+        usePreferencesStore.getInitialState(),
+        true
+      );
+      usePromptTemplateStore.setState(
+        usePromptTemplateStore.getInitialState(),
+        true
+      );
+    });
+
+    setNamespace(userId);
+
+    // localStorage is synchronous, so these hydrate right here
+    for (const store of localStores) void store.persist.rehydrate();
+  });
+
+  void queryClient.resetQueries();
+  await Promise.all([saved, useChatStore.persist.rehydrate()]);
+}
+
+/**
+ * Deletes everything stored in this browser under namespace `id`, which
+ * must not be the current one.
+ */
+export async function deleteNamespaceData(id: string | null) {
+  if (id === getNamespace()) {
+    throw new Error("Can't delete the data of the active namespace");
+  }
+
+  for (const store of localStores) {
+    localStorage.removeItem(scopedName(store.persist.getOptions().name!, id));
+  }
+  // Chat history from before IndexedDB, if it was never imported
+  if (id === null) {
+    localStorage.removeItem(useChatStore.persist.getOptions().name!);
+  }
+  await Promise.all(
+    [CHAT_DB_NAME, ATTACHMENTS_DB_NAME].map((name) =>
+      deleteDatabase(scopedName(name, id))
+    )
+  );
+}
+
+/**
+ * Deletes the current account's chats, attachments, settings and queued
+ * writes from this browser, leaving it signed out of them (null
+ * namespace). Whatever was synced stays on the server and comes back
+ * on the next sign-in.
+ */
+export async function deleteLocalData() {
+  const id = getNamespace();
+  if (!id) return;
+
+  await switchAccount(null);
+  await deleteNamespaceData(id);
+}
@@ -0,0 +1,153 @@
+/**
+ * attachments.ts
+ * ----------------
+ * Storage for the bytes of message attachments.
+ *
+ * Responsibilities:
+ * - Save uploaded files to IndexedDB and describe them as `Attachment`s
+ * - Keep text extracted from documents alongside the bytes
+ * - Load the bytes back for previews and provider requests
+ * - Restore bytes from a workspace backup
+ * - Delete bytes when their chats are deleted
+ *
+ * Why a separate database:
+ * - Messages only keep the metadata and a `blobKey` pointing here, so
+ *   chat history records stay small no matter how large the files are.
+ */
+import type { Attachment } from "@/types/chat";
+import { openDatabase, promisifyRequest, transactionDone } from "./idb";
+import { scopedName } from "./namespace";
+import { estimateTokens } from "./tokens";
+
+export const ATTACHMENTS_DB_NAME = "chat-attachments";
+const STORE = "blobs";
+
+function db() {
+  return openDatabase(scopedName(ATTACHMENTS_DB_NAME), 1, (database) => {
+    database.createObjectStore(STORE);
+  });
+}
+
+const textKey = (blobKey: string) => `${blobKey}:text`;
+
+/**
+ * Stores `file` and, for documents, its `extracted` text (already
+ * truncated to the prompt budget).
+ */
+export async function saveAttachment(
+  file: File,
+  extracted?: { text: string; truncated: boolean }
+): Promise<Attachment> {
+  const id = crypto.randomUUID();
+
+  const tx = (await db()).transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(file, id);
+  if (extracted) tx.objectStore(STORE).put(extracted.text, textKey(id));
+  await transactionDone(tx);
+
+  return {
+    id,
+    name: file.name,
+    mime: file.type || "application/octet-stream",
+    size: file.size,
+    blobKey: id,
+    ...(extracted && {
+      extracted: {
+        tokens: estimateTokens(extracted.text),
+        truncated: extracted.truncated,
+      },
+    }),
+  };
+}
+
+export async function loadAttachmentBlob(
+  attachment: Attachment
+): Promise<Blob | undefined> {
+  const tx = (await db()).transaction(STORE, "readonly");
+  return promisifyRequest<Blob | undefined>(
+    tx.objectStore(STORE).get(attachment.blobKey)
+  );
+}
+
+export async function loadAttachmentText(
+  attachment: Attachment
+): Promise<string | undefined> {
+  if (!attachment.extracted) return undefined;
+
+  const tx = (await db()).transaction(STORE, "readonly");
+  return promisifyRequest<string | undefined>(
+    tx.objectStore(STORE).get(textKey(attachment.blobKey))
+  );
+}
+
+/**
+ * Puts bytes (and extracted text) back under a known `blobKey`, as when
+ * restoring a backup.
+ */
+export async function restoreAttachmentBlob(
+  blobKey: string,
+  blob: Blob,
+  text?: string
+) {
+  const tx = (await db()).transaction(STORE, "readwrite");
+  tx.objectStore(STORE).put(blob, blobKey);
+  if (text !== undefined) tx.objectStore(STORE).put(text, textKey(blobKey));
+  await transactionDone(tx);
+}
+
+export async function deleteAttachmentBlobs(blobKeys: string[]) {
+  if (blobKeys.length === 0) return;
+
+  const tx = (await db()).transaction(STORE, "readwrite");
+  for (const key of blobKeys) {
+    tx.objectStore(STORE).delete(key);
+    tx.objectStore(STORE).delete(textKey(key));
+  }
+  await transactionDone(tx);
+}
+
+export async function clearAttachmentBlobs() {
+  const tx = (await db()).transaction(STORE, "readwrite");
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
+
+export function isImage(attachment: Pick<Attachment, "mime">) {
+  return attachment.mime.startsWith("image/");
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Reads an attachment as a `data:` URL, as multimodal APIs expect.
+ */
+export async function attachmentToDataUrl(attachment: Attachment) {
+  const blob = await loadAttachmentBlob(attachment);
+  if (!blob) return undefined;
+
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * The bytes of a base64 `data:` URL, as written by
+ * `attachmentToDataUrl`. Decoded here rather than fetched, so a URL
+ * from a file can never make a request.
+ */
+export function dataUrlToBlob(url: string) {
+  const match = /^data:([^,;]*)[^,]*;base64,(.*)$/s.exec(url);
+  if (!match) throw new Error("Not a base64 data: URL");
+
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+}
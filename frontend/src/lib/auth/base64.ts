@@ -0,0 +1,7 @@
+/** URL-safe base64 without padding, as used in JWTs and PKCE. */
+export function base64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
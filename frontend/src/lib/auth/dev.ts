@@ -0,0 +1,61 @@
+/**
+ * dev.ts
+ * ----------------
+ * A local "dev identity" that signs in without any network.
+ *
+ * Mints an unsigned ID token (`alg: none`) for whatever name and email
+ * are entered, so the rest of the app runs exactly as with a real
+ * provider. Only for development and demos: any backend that checks
+ * signatures rejects these tokens.
+ */
+import { base64Url } from "./base64";
+import type { AuthProvider } from "./types";
+
+// Last identity used, so renewal can mint a new token for it
+const IDENTITY_KEY = "dev_identity";
+const TOKEN_LIFETIME_S = 12 * 60 * 60;
+
+export interface DevIdentity {
+  name: string;
+  email: string;
+}
+
+function encode(part: object) {
+  return base64Url(new TextEncoder().encode(JSON.stringify(part)));
+}
+
+/**
+ * An ID token for `identity`. The same email always gets the same user
+ * id, so its data comes back on the next sign-in.
+ */
+export function createDevToken(identity: DevIdentity) {
+  localStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+
+  const now = Math.floor(Date.now() / 1000);
+  const email = identity.email.trim().toLowerCase();
+  const payload = {
+    iss: "dev",
+    sub: `dev:${email}`,
+    name: identity.name.trim() || email,
+    email,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_S,
+  };
+  return `${encode({ alg: "none", typ: "JWT" })}.${encode(payload)}.`;
+}
+
+export function readDevIdentity(): DevIdentity | null {
+  const raw = localStorage.getItem(IDENTITY_KEY);
+  return raw ? (JSON.parse(raw) as DevIdentity) : null;
+}
+
+export const devProvider: AuthProvider = {
+  id: "dev",
+  name: "Dev identity",
+  description: "Local development login • No network, no passwords",
+  silentReauth: async () => {
+    const identity = readDevIdentity();
+    return identity ? createDevToken(identity) : null;
+  },
+  signOut: () => {},
+};
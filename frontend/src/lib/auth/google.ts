@@ -0,0 +1,108 @@
+/**
+ * google.ts
+ * ----------------
+ * Sign-in with Google Identity Services.
+ *
+ * The login page renders Google's own button (see `GoogleSignIn`).
+ * Google ID tokens cannot be refreshed; instead One Tap is asked for a
+ * new one with `auto_select`, which succeeds without any UI when the
+ * user has a single, previously approved Google session. Anything that
+ * needs the user (account chooser, no session) counts as a failure.
+ */
+import type { AuthProvider } from "./types";
+
+const SCRIPT_URL = "https://accounts.google.com/gsi/client";
+// One Tap may never report back (e.g. a restarted flow, or FedCM
+// showing nothing); renewal then counts as failed
+const PROMPT_TIMEOUT_MS = 15_000;
+
+export const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID as
+  | string
+  | undefined;
+
+interface CredentialResponse {
+  credential?: string;
+}
+
+interface PromptMomentNotification {
+  isNotDisplayed: () => boolean;
+  isSkippedMoment: () => boolean;
+  isDismissedMoment: () => boolean;
+  getDismissedReason: () => string;
+}
+
+interface GoogleAccountsId {
+  initialize: (config: {
+    client_id: string;
+    auto_select?: boolean;
+    callback: (response: CredentialResponse) => void;
+  }) => void;
+  prompt: (listener?: (n: PromptMomentNotification) => void) => void;
+  cancel: () => void;
+  disableAutoSelect: () => void;
+}
+
+declare global {
+  interface Window {
+    google?: { accounts?: { id?: GoogleAccountsId } };
+  }
+}
+
+/**
+ * The Identity Services client; the script is only on the page once
+ * the login button has been shown, so a restored session loads it here.
+ */
+function loadAccounts(): Promise<GoogleAccountsId | null> {
+  const loaded = window.google?.accounts?.id;
+  if (loaded) return Promise.resolve(loaded);
+
+  return new Promise((resolve) => {
+    const script = document.createElement("script");
+    script.src = SCRIPT_URL;
+    script.async = true;
+    script.onload = () => resolve(window.google?.accounts?.id ?? null);
+    script.onerror = () => resolve(null);
+    document.head.appendChild(script);
+  });
+}
+
+async function silentReauth(): Promise<string | null> {
+  const accounts = googleClientId ? await loadAccounts() : null;
+  if (!accounts || !googleClientId) return null;
+
+  return new Promise((resolve) => {
+    const finish = (credential: string | null) => {
+      clearTimeout(timeout);
+      resolve(credential);
+    };
+    const timeout = setTimeout(() => {
+      accounts.cancel();
+      finish(null);
+    }, PROMPT_TIMEOUT_MS);
+
+    accounts.initialize({
+      client_id: googleClientId,
+      auto_select: true,
+      callback: (response) => finish(response.credential ?? null),
+    });
+    accounts.prompt((notification) => {
+      if (
+        notification.isNotDisplayed() ||
+        notification.isSkippedMoment() ||
+        (notification.isDismissedMoment() &&
+          notification.getDismissedReason() !== "credential_returned")
+      ) {
+        finish(null);
+      }
+    });
+  });
+}
+
+export const googleProvider: AuthProvider = {
+  id: "google",
+  name: "Google",
+  description: "Secure OAuth login • No passwords stored",
+  silentReauth,
+  // Otherwise One Tap signs the same account straight back in
+  signOut: () => window.google?.accounts?.id?.disableAutoSelect(),
+};
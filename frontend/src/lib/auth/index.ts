@@ -0,0 +1,59 @@
+/**
+ * Auth provider selection.
+ *
+ * VITE_AUTH_PROVIDER picks how users sign in: "google", "oidc" or
+ * "dev". When unset, the first provider that is configured is used
+ * (Google, then OIDC). The dev identity lets anyone sign in as anyone,
+ * so without either it is only used in development builds; a
+ * production build has no provider then, and the login page shows
+ * `authConfigError` instead of a sign-in button.
+ */
+import { devProvider } from "./dev";
+import { googleClientId, googleProvider } from "./google";
+import { isOidcConfigured, oidcProvider } from "./oidc";
+import type { AuthProvider, AuthProviderId } from "./types";
+
+export type { AuthProvider, AuthProviderId } from "./types";
+export { createDevToken, readDevIdentity, type DevIdentity } from "./dev";
+export { googleClientId } from "./google";
+export {
+  completeOidcSignIn,
+  OIDC_CALLBACK_PATH,
+  startOidcSignIn,
+} from "./oidc";
+
+const providers: Record<AuthProviderId, AuthProvider> = {
+  google: googleProvider,
+  oidc: oidcProvider,
+  dev: devProvider,
+};
+
+function selectProvider(): AuthProvider | Error {
+  const configured = import.meta.env.VITE_AUTH_PROVIDER as string | undefined;
+  if (configured) {
+    if (configured in providers) {
+      return providers[configured as AuthProviderId];
+    }
+    return new Error(`Unknown VITE_AUTH_PROVIDER "${configured}"`);
+  }
+
+  if (googleClientId) return googleProvider;
+  if (isOidcConfigured()) return oidcProvider;
+  if (import.meta.env.DEV) return devProvider;
+  return new Error(
+    "No sign-in provider is configured: set VITE_GOOGLE_CLIENT_ID, the " +
+      "OIDC settings, or VITE_AUTH_PROVIDER"
+  );
+}
+
+const selected = selectProvider();
+
+// Null when misconfigured; nobody can sign in then (guest mode still works)
+export const authProvider = selected instanceof Error ? null : selected;
+export const authConfigError =
+  selected instanceof Error ? selected.message : null;
+
+if (authConfigError) console.error(authConfigError);
+if (authProvider === devProvider && import.meta.env.PROD) {
+  console.warn("Signing in with the dev identity provider in production");
+}
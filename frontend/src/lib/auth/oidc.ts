@@ -0,0 +1,194 @@
+/**
+ * oidc.ts
+ * ----------------
+ * Sign-in with any OpenID Connect provider (Keycloak, Auth0, Okta,
+ * Entra ID, ...) using the authorization code flow with PKCE.
+ *
+ * Responsibilities:
+ * - Discover the provider's endpoints from its issuer URL
+ * - Send the browser to the provider with a PKCE challenge, and trade
+ *   the returned code for an ID token on `/auth/callback`
+ * - Renew the ID token with the refresh token, when the provider
+ *   issues one
+ *
+ * Configured with VITE_OIDC_ISSUER, VITE_OIDC_CLIENT_ID and optionally
+ * VITE_OIDC_SCOPE. The client must be public (no secret) and allow
+ * `<origin>/auth/callback` as a redirect URI.
+ */
+import { jwtDecode } from "jwt-decode";
+import { base64Url } from "./base64";
+import type { AuthProvider } from "./types";
+
+const env = import.meta.env;
+const issuer = ((env.VITE_OIDC_ISSUER as string | undefined) ?? "").replace(
+  /\/$/,
+  ""
+);
+const clientId = (env.VITE_OIDC_CLIENT_ID as string | undefined) ?? "";
+const scope =
+  (env.VITE_OIDC_SCOPE as string | undefined) || "openid profile email";
+
+export const OIDC_CALLBACK_PATH = "/auth/callback";
+
+// The sign-in in progress; sessionStorage, so it only survives the
+// round trip through the provider in this tab
+const PENDING_KEY = "oidc_pending";
+const REFRESH_KEY = "oidc_refresh_token";
+
+interface OidcMetadata {
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface PendingSignIn {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+}
+
+interface TokenResponse {
+  id_token?: string;
+  refresh_token?: string;
+}
+
+let metadata: Promise<OidcMetadata> | null = null;
+
+function discover(): Promise<OidcMetadata> {
+  metadata ??= fetch(`${issuer}/.well-known/openid-configuration`).then(
+    async (res) => {
+      if (!res.ok) throw new Error(`OIDC discovery failed (${res.status})`);
+      return (await res.json()) as OidcMetadata;
+    }
+  );
+  // Let a failed lookup be retried
+  metadata.catch(() => (metadata = null));
+  return metadata;
+}
+
+function randomString() {
+  return base64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier)
+  );
+  return base64Url(new Uint8Array(digest));
+}
+
+function redirectUri() {
+  return window.location.origin + OIDC_CALLBACK_PATH;
+}
+
+async function requestToken(params: Record<string, string>) {
+  const { token_endpoint } = await discover();
+  const res = await fetch(token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: clientId, ...params }),
+  });
+  if (!res.ok) throw new Error(`OIDC token request failed (${res.status})`);
+
+  const tokens = (await res.json()) as TokenResponse;
+  if (tokens.refresh_token) {
+    localStorage.setItem(REFRESH_KEY, tokens.refresh_token);
+  }
+  return tokens;
+}
+
+export function isOidcConfigured() {
+  return Boolean(issuer && clientId);
+}
+
+/**
+ * Leaves the app for the provider's login page. After login the
+ * provider redirects to `/auth/callback` (see `completeOidcSignIn`).
+ */
+export async function startOidcSignIn(returnTo: string) {
+  const { authorization_endpoint } = await discover();
+  const pending: PendingSignIn = {
+    state: randomString(),
+    nonce: randomString(),
+    verifier: randomString(),
+    returnTo,
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: clientId,
+    redirect_uri: redirectUri(),
+    scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await pkceChallenge(pending.verifier),
+    code_challenge_method: "S256",
+  }).toString();
+  window.location.assign(url);
+}
+
+/**
+ * Trades the code in the callback URL's `search` for an ID token.
+ * Returns it with the path the sign-in started from; throws when the
+ * provider reported an error or the response doesn't match this
+ * tab's sign-in.
+ */
+export async function completeOidcSignIn(search: string) {
+  const params = new URLSearchParams(search);
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+
+  const error = params.get("error");
+  if (error) {
+    throw new Error(params.get("error_description") ?? error);
+  }
+
+  const pending = raw ? (JSON.parse(raw) as PendingSignIn) : null;
+  const code = params.get("code");
+  if (!pending || !code || params.get("state") !== pending.state) {
+    throw new Error("This sign-in link is invalid or has expired");
+  }
+
+  const { id_token } = await requestToken({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.verifier,
+  });
+  if (!id_token) throw new Error("The provider returned no ID token");
+
+  const { nonce } = jwtDecode<{ nonce?: string }>(id_token);
+  if (nonce !== pending.nonce) {
+    throw new Error("The ID token doesn't belong to this sign-in");
+  }
+
+  return { token: id_token, returnTo: pending.returnTo };
+}
+
+async function silentReauth(): Promise<string | null> {
+  const refreshToken = localStorage.getItem(REFRESH_KEY);
+  if (!refreshToken) return null;
+
+  try {
+    const { id_token } = await requestToken({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      scope,
+    });
+    return id_token ?? null;
+  } catch {
+    localStorage.removeItem(REFRESH_KEY);
+    return null;
+  }
+}
+
+export const oidcProvider: AuthProvider = {
+  id: "oidc",
+  name: "Single sign-on",
+  description: "Signs in with your organization's identity provider",
+  silentReauth,
+  signOut: () => localStorage.removeItem(REFRESH_KEY),
+};
@@ -0,0 +1,29 @@
+/**
+ * types.ts
+ * ----------------
+ * Shared contract for every way of signing in.
+ *
+ * Each provider ends a sign-in with an ID token (a JWT carrying `sub`,
+ * `exp` and the profile claims). The app only ever handles that token:
+ * it goes through `useAuthStore.setAuth` whichever provider issued it,
+ * and `logout` ends the session the same way for all of them.
+ */
+
+export type AuthProviderId = "google" | "oidc" | "dev";
+
+export interface AuthProvider {
+  id: AuthProviderId;
+  // e.g. "Google"; shown on the login page
+  name: string;
+  // One line under the sign-in button
+  description: string;
+
+  /**
+   * A fresh ID token for the signed-in user without any UI, or null
+   * when the user has to sign in again.
+   */
+  silentReauth: () => Promise<string | null>;
+
+  // Forgets provider-side state (auto sign-in, refresh tokens) on logout
+  signOut: () => void;
+}
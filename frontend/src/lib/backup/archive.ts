@@ -0,0 +1,104 @@
+import type { StorageValue } from "zustand/middleware";
+import type { ChatSession } from "@/store/useChatListStore";
+import type { ChatThread } from "@/types/chat";
+
+export const BACKUP_FORMAT = "workspace-backup";
+export const BACKUP_VERSION = 1;
+
+// Attachment bytes are only ever stored inline
+const DATA_URL = /^data:[^,]*;base64,/;
+
+export interface BackupAttachment {
+  blobKey: string;
+  // The bytes as a base64 data: URL (carries the MIME type)
+  data: string;
+  // Text extracted from a document, when there is any
+  text?: string;
+}
+
+/**
+ * Everything the app persists, in one JSON file. Threads are keyed by
+ * chat id; dates are ISO strings until revived.
+ */
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  chats: ChatSession[];
+  threads: Record<string, ChatThread>;
+  attachments: BackupAttachment[];
+  // Persisted stores (settings, ...) by name, each with its own version,
+  // so the store's `migrate` upgrades old copies on restore
+  stores: Record<string, StorageValue<unknown>>;
+}
+
+/**
+ * Upgrades an archive from the keyed version to the next one. Add an
+ * entry (and bump `BACKUP_VERSION`) whenever the archive shape changes.
+ */
+const migrations: Record<
+  number,
+  (archive: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks that `data` is a backup this version can restore, migrating it
+ * from older versions. Throws with a readable message otherwise.
+ */
+export function parseBackup(data: unknown): WorkspaceBackup {
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a workspace backup");
+  }
+
+  let version = data.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    throw new Error("The backup has no valid version");
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(
+      `The backup was made by a newer version of the app (v${version})`
+    );
+  }
+
+  let archive = data;
+  while (version < BACKUP_VERSION) {
+    archive = migrations[version](archive);
+    version += 1;
+  }
+
+  const { chats, threads, attachments, stores } = archive;
+  const valid =
+    Array.isArray(chats) &&
+    chats.every(
+      (c) =>
+        isObject(c) &&
+        typeof c.id === "string" &&
+        typeof c.title === "string" &&
+        typeof c.createdAt === "number"
+    ) &&
+    isObject(threads) &&
+    Object.values(threads).every(
+      (t) => isObject(t) && isObject(t.nodes) && Array.isArray(t.rootIds)
+    ) &&
+    Array.isArray(attachments) &&
+    attachments.every(
+      (a) =>
+        isObject(a) &&
+        typeof a.blobKey === "string" &&
+        typeof a.data === "string" &&
+        DATA_URL.test(a.data)
+    ) &&
+    isObject(stores);
+
+  if (!valid) throw new Error("The backup is damaged or incomplete");
+
+  return { ...archive, version } as unknown as WorkspaceBackup;
+}
@@ -0,0 +1,226 @@
+/**
+ * Workspace backup.
+ *
+ * Responsibilities:
+ * - Collect chats, all messages (loaded or not), attachment bytes,
+ *   persisted settings and prompt templates into one versioned archive
+ *   (see `archive.ts`)
+ * - Validate and migrate an archive before restoring it
+ * - Restore by merging into the workspace or replacing it
+ *
+ * What "merge" and "replace" mean:
+ * - merge: chats missing here are added; chats in both keep this
+ *   browser's copy plus any messages only the backup has. Settings and
+ *   prompt templates stay.
+ * - replace: the workspace becomes the backup; chats not in it are
+ *   deleted and settings and prompt templates are overwritten.
+ */
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import { useChatListStore, type ChatSession } from "@/store/useChatListStore";
+import { readChatThread, useChatStore } from "@/store/useChatStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { usePreferencesStore } from "@/store/usePreferencesStore";
+import { usePromptTemplateStore } from "@/store/usePromptTemplateStore";
+import {
+  attachmentToDataUrl,
+  dataUrlToBlob,
+  loadAttachmentText,
+  restoreAttachmentBlob,
+} from "@/lib/attachments";
+import { mergeThreads, reviveThread } from "@/lib/messageTree";
+import type { Attachment, ChatThread } from "@/types/chat";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  parseBackup,
+  type BackupAttachment,
+  type WorkspaceBackup,
+} from "./archive";
+
+export type { WorkspaceBackup } from "./archive";
+export type RestoreMode = "merge" | "replace";
+
+interface PersistedStore<S> {
+  persist: {
+    getOptions: () => { name?: string; storage?: PersistStorage<S> };
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+interface StoreBackup {
+  name: string;
+  read: () => Promise<StorageValue<unknown> | null>;
+  write: (value: StorageValue<unknown>) => Promise<void>;
+}
+
+function backupOf<S>(store: PersistedStore<S>): StoreBackup {
+  const { name = "", storage } = store.persist.getOptions();
+
+  return {
+    name,
+    read: async () => (await storage?.getItem(name)) ?? null,
+    // Written as stored, then rehydrated so `migrate` runs on old versions
+    write: async (value) => {
+      await storage?.setItem(name, value as StorageValue<S>);
+      await store.persist.rehydrate();
+    },
+  };
+}
+
+// Persisted stores other than chat history; add new ones here
+const backedUpStores = [
+  backupOf(useSettingsStore),
+  backupOf(usePreferencesStore),
+  backupOf(usePromptTemplateStore),
+];
+
+async function backupAttachment(
+  attachment: Attachment
+): Promise<BackupAttachment | null> {
+  const data = await attachmentToDataUrl(attachment);
+  if (!data) return null;
+
+  const text = await loadAttachmentText(attachment);
+  return {
+    blobKey: attachment.blobKey,
+    data,
+    ...(text !== undefined && { text }),
+  };
+}
+
+export async function createBackup(): Promise<WorkspaceBackup> {
+  const chats = useChatListStore
+    .getState()
+    .chats.map(
+      ({ id, title, createdAt, model, params, sourceId, deletedAt }) => ({
+        id,
+        title,
+        createdAt,
+        model,
+        params,
+        sourceId,
+        deletedAt,
+      })
+    );
+
+  const threads: Record<string, ChatThread> = {};
+  const attachments = new Map<string, Attachment>();
+
+  for (const chat of chats) {
+    const thread = await readChatThread(chat.id);
+    if (!thread) continue;
+
+    threads[chat.id] = thread;
+    for (const node of Object.values(thread.nodes)) {
+      for (const a of node.attachments ?? []) attachments.set(a.blobKey, a);
+    }
+  }
+
+  const stores: WorkspaceBackup["stores"] = {};
+  for (const store of backedUpStores) {
+    const value = await store.read();
+    if (value) stores[store.name] = value;
+  }
+
+  const files: BackupAttachment[] = [];
+  for (const attachment of attachments.values()) {
+    const file = await backupAttachment(attachment);
+    if (file) files.push(file);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    chats,
+    threads,
+    attachments: files,
+    stores,
+  };
+}
+
+export async function downloadBackup() {
+  const backup = await createBackup();
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(backup)], { type: "application/json" })
+  );
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `workspace-backup-${backup.createdAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads and validates a backup file; throws with a readable message when
+ * it cannot be restored.
+ */
+export async function readBackup(file: File): Promise<WorkspaceBackup> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a JSON file`);
+  }
+  return parseBackup(data);
+}
+
+export async function restoreBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+) {
+  const list = useChatListStore.getState();
+  const chatStore = useChatStore.getState();
+  const backupIds = new Set(backup.chats.map((c) => c.id));
+
+  if (mode === "replace") {
+    for (const chat of list.chats) {
+      if (backupIds.has(chat.id)) continue;
+      list.deleteChat(chat.id);
+      chatStore.clearChat(chat.id);
+    }
+  }
+
+  for (const file of backup.attachments) {
+    await restoreAttachmentBlob(
+      file.blobKey,
+      dataUrlToBlob(file.data),
+      file.text
+    );
+  }
+
+  const local = new Map(
+    useChatListStore.getState().chats.map((c) => [c.id, c])
+  );
+  const restored: { chat: ChatSession; thread: ChatThread }[] = [];
+
+  for (const chat of backup.chats) {
+    const incoming = reviveThread(
+      backup.threads[chat.id] ?? { nodes: {}, rootIds: [] }
+    );
+    const existing = local.get(chat.id);
+
+    if (mode === "merge" && existing) {
+      const thread = await readChatThread(chat.id);
+      restored.push({
+        chat: existing,
+        thread: thread ? mergeThreads(thread, incoming) : incoming,
+      });
+    } else {
+      restored.push({
+        chat: existing ? { ...existing, ...chat } : chat,
+        thread: incoming,
+      });
+    }
+  }
+
+  useChatStore.getState().importChats(restored);
+
+  if (mode === "replace") {
+    for (const store of backedUpStores) {
+      const value = backup.stores[store.name];
+      if (value) await store.write(value);
+    }
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * chatStorage.ts
+ * ----------------
+ * zustand `persist` storage that keeps chat history in IndexedDB.
+ *
+ * Responsibilities:
+ * - Store one record per chat (tree metadata) and one per message,
+ *   instead of one JSON blob for everything
+ * - Write only what changed since the last write, batched, so streaming
+ *   a reply rewrites a single message record rather than all history
+ * - Load chats one at a time on demand; hydration only reads the
+ *   envelope, so startup cost does not grow with history
+ * - Import the old `localStorage` blob once, then delete it
+ *
+ * Schema (database "chat-history", suffixed per account; see `namespace`):
+ * - meta:     persist envelope per store name ({ version, activeChatId })
+ * - chats:    { id, rootIds, activeRootId }
+ * - messages: MessageNode + chatId, keyed by [chatId, id], indexed by chatId
+ *
+ * Schema changes bump `DB_VERSION` and add a step to `upgrade`; changes
+ * to the state shape go through the store's own `version` / `migrate`.
+ *
+ * A chat missing from the persisted state is merely not loaded; records
+ * are only deleted through `deleteThreads` / `clearThreads`.
+ */
+import type { PersistStorage, StorageValue } from "zustand/middleware";
+import type { ChatThread, MessageNode } from "@/types/chat";
+import { openDatabase, promisifyRequest, transactionDone } from "./idb";
+import { getNamespace, scopedName } from "./namespace";
+
+export interface PersistedChats {
+  activeChatId: string | null;
+  messagesByChatId: Record<string, ChatThread>;
+}
+
+export interface ChatStorage extends PersistStorage<PersistedChats> {
+  // Reads one chat; null when it was never stored
+  loadThread: (chatId: string) => Promise<ChatThread | null>;
+  deleteThreads: (chatIds: string[]) => Promise<void>;
+  clearThreads: () => Promise<void>;
+  // Saves pending writes, then forgets all loaded chats and ignores
+  // writes until the next hydration (switching accounts). Resolves once
+  // the pending writes are saved.
+  reset: () => Promise<void>;
+}
+
+interface ChatRecord {
+  id: string;
+  rootIds: string[];
+  activeRootId?: string;
+}
+
+type MessageRecord = MessageNode & { chatId: string };
+
+interface MetaRecord {
+  version: number;
+  activeChatId: string | null;
+}
+
+export const CHAT_DB_NAME = "chat-history";
+const DB_VERSION = 1;
+const WRITE_DELAY_MS = 250;
+
+function db() {
+  return openDatabase(scopedName(CHAT_DB_NAME), DB_VERSION, (database, oldVersion) => {
+    if (oldVersion < 1) {
+      database.createObjectStore("meta");
+      database.createObjectStore("chats", { keyPath: "id" });
+      database
+        .createObjectStore("messages", { keyPath: ["chatId", "id"] })
+        .createIndex("chatId", "chatId");
+    }
+  });
+}
+
+function deleteChatRecords(tx: IDBTransaction, chatId: string) {
+  tx.objectStore("chats").delete(chatId);
+
+  const index = tx.objectStore("messages").index("chatId");
+  const cursor = index.openKeyCursor(IDBKeyRange.only(chatId));
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    tx.objectStore("messages").delete(cursor.result.primaryKey);
+    cursor.result.continue();
+  };
+}
+
+/**
+ * Queues the records of one chat that differ between `prev` (what is
+ * stored, undefined if unknown) and `next` on `tx`.
+ */
+function writeThread(
+  tx: IDBTransaction,
+  chatId: string,
+  prev: ChatThread | undefined,
+  next: ChatThread
+) {
+  const messages = tx.objectStore("messages");
+
+  if (
+    !prev ||
+    next.rootIds !== prev.rootIds ||
+    next.activeRootId !== prev.activeRootId
+  ) {
+    tx.objectStore("chats").put({
+      id: chatId,
+      rootIds: next.rootIds,
+      activeRootId: next.activeRootId,
+    } satisfies ChatRecord);
+  }
+
+  for (const [id, node] of Object.entries(next.nodes)) {
+    if (node !== prev?.nodes[id]) messages.put({ ...node, chatId });
+  }
+
+  if (prev) {
+    for (const id of Object.keys(prev.nodes)) {
+      if (!next.nodes[id]) messages.delete([chatId, id]);
+    }
+    return;
+  }
+
+  // Unknown baseline (never loaded, or a failed write): stored messages
+  // that `next` no longer has must go too
+  const cursor = messages
+    .index("chatId")
+    .openKeyCursor(IDBKeyRange.only(chatId));
+  cursor.onsuccess = () => {
+    if (!cursor.result) return;
+    const [, id] = cursor.result.primaryKey as [string, string];
+    if (!next.nodes[id]) messages.delete(cursor.result.primaryKey);
+    cursor.result.continue();
+  };
+}
+
+export function createChatStorage(): ChatStorage {
+  // Thread last passed to setItem, per loaded chat
+  let seen: Record<string, ChatThread> = {};
+  // Thread as stored in IndexedDB, per loaded chat
+  const written = new Map<string, ChatThread>();
+  // Chats changed since the last flush; survives their eviction
+  const dirty = new Map<string, ChatThread>();
+
+  let envelope: (MetaRecord & { name: string }) | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Writes before hydration would clobber records not loaded yet
+  let ready = false;
+  // localStorage key to delete once its import has been written
+  let importedKey: string | null = null;
+
+  const flush = async () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (!envelope) return;
+
+    const meta = envelope;
+    // Read now: `reset` clears it before this write completes
+    const imported = importedKey;
+    const changes = [...dirty];
+    envelope = null;
+    dirty.clear();
+
+    const previous = new Map(changes.map(([id]) => [id, written.get(id)]));
+    for (const [chatId, thread] of changes) {
+      // Evicted chats no longer need a baseline in memory
+      if (seen[chatId]) written.set(chatId, thread);
+      else written.delete(chatId);
+    }
+
+    try {
+      const tx = (await db()).transaction(
+        ["meta", "chats", "messages"],
+        "readwrite"
+      );
+      tx.objectStore("meta").put(
+        { version: meta.version, activeChatId: meta.activeChatId },
+        meta.name
+      );
+      for (const [chatId, thread] of changes) {
+        writeThread(tx, chatId, previous.get(chatId), thread);
+      }
+      await transactionDone(tx);
+
+      if (imported === meta.name) {
+        localStorage.removeItem(meta.name);
+        if (importedKey === imported) importedKey = null;
+      }
+    } catch (err) {
+      console.error("Saving chat history failed", err);
+      // Unknown what made it to disk — rewrite these chats in full next time
+      for (const [chatId] of changes) written.delete(chatId);
+    }
+  };
+
+  const clearAll = async () => {
+    dirty.clear();
+    written.clear();
+
+    const tx = (await db()).transaction(["chats", "messages"], "readwrite");
+    tx.objectStore("chats").clear();
+    tx.objectStore("messages").clear();
+    await transactionDone(tx);
+  };
+
+  // Last chance to save a batched write before the tab goes away
+  window.addEventListener("pagehide", () => void flush());
+
+  return {
+    getItem: async (name) => {
+      try {
+        const meta = await promisifyRequest<MetaRecord | undefined>(
+          (await db()).transaction("meta").objectStore("meta").get(name)
+        );
+
+        if (meta) {
+          return {
+            version: meta.version,
+            state: { activeChatId: meta.activeChatId, messagesByChatId: {} },
+          };
+        }
+
+        // First run on IndexedDB: hand the old localStorage blob to
+        // `migrate`, whose write-back copies it into the database. It
+        // predates accounts, so only the account-less namespace has one.
+        if (getNamespace() !== null) return null;
+        const legacy = localStorage.getItem(name);
+        if (!legacy) return null;
+
+        importedKey = name;
+        return JSON.parse(legacy) as StorageValue<PersistedChats>;
+      } finally {
+        ready = true;
+      }
+    },
+
+    setItem: (name, { state, version }) => {
+      if (!ready) return;
+
+      for (const [chatId, thread] of Object.entries(state.messagesByChatId)) {
+        if (thread !== seen[chatId]) dirty.set(chatId, thread);
+      }
+      seen = state.messagesByChatId;
+
+      envelope = {
+        name,
+        version: version ?? 0,
+        activeChatId: state.activeChatId,
+      };
+      timer ??= setTimeout(() => void flush(), WRITE_DELAY_MS);
+    },
+
+    removeItem: async (name) => {
+      await clearAll();
+      const tx = (await db()).transaction("meta", "readwrite");
+      tx.objectStore("meta").delete(name);
+      await transactionDone(tx);
+    },
+
+    loadThread: async (chatId) => {
+      // A pending write is newer than what IndexedDB holds
+      const unsaved = dirty.get(chatId);
+      if (unsaved) return unsaved;
+
+      const tx = (await db()).transaction(["chats", "messages"], "readonly");
+      const [chat, messages] = await Promise.all([
+        promisifyRequest<ChatRecord | undefined>(
+          tx.objectStore("chats").get(chatId)
+        ),
+        promisifyRequest<MessageRecord[]>(
+          tx.objectStore("messages").index("chatId").getAll(chatId)
+        ),
+      ]);
+      if (!chat) return null;
+
+      const thread: ChatThread = {
+        nodes: {},
+        rootIds: chat.rootIds,
+        activeRootId: chat.activeRootId,
+      };
+      for (const record of messages) {
+        const node: Partial<MessageRecord> = { ...record };
+        delete node.chatId;
+        thread.nodes[record.id] = node as MessageNode;
+      }
+
+      written.set(chatId, thread);
+      return thread;
+    },
+
+    deleteThreads: async (chatIds) => {
+      for (const chatId of chatIds) {
+        dirty.delete(chatId);
+        written.delete(chatId);
+      }
+
+      const tx = (await db()).transaction(["chats", "messages"], "readwrite");
+      for (const chatId of chatIds) deleteChatRecords(tx, chatId);
+      await transactionDone(tx);
+    },
+
+    clearThreads: clearAll,
+
+    reset: () => {
+      // Runs synchronously up to its first await, so it still targets
+      // the namespace being left
+      const saved = flush();
+      seen = {};
+      written.clear();
+      ready = false;
+      importedKey = null;
+      return saved;
+    },
+  };
+}
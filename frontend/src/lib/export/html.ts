@@ -0,0 +1,76 @@
+/**
+ * HTML export: a single page that opens anywhere, offline.
+ *
+ * Markup comes from `ChatExportDocument`; styles are inlined and images
+ * embedded as data URLs. Only the active path is included.
+ */
+import { createElement } from "react";
+
+import { ChatExportDocument } from "@/components/chat/ChatExportDocument";
+import { attachmentToDataUrl, isImage } from "@/lib/attachments";
+import { getActivePath } from "@/lib/messageTree";
+import type { ExportableChat, ExportedFile } from "./types";
+
+const STYLES = `
+  body { margin: 0; background: #fafafa; color: #18181b; font: 15px/1.6 system-ui, sans-serif; }
+  main { max-width: 768px; margin: 0 auto; padding: 32px 16px; }
+  h1 { font-size: 24px; margin: 0 0 24px; }
+  .message { margin-bottom: 24px; padding: 16px; border-radius: 12px; }
+  .message.user { background: #f4f4f5; }
+  .message h2 { display: inline; font-size: 14px; margin-right: 8px; }
+  .message time, .note, .attachment { color: #71717a; font-size: 12px; }
+  .message img { display: block; max-width: 100%; max-height: 320px; margin: 8px 0; border-radius: 8px; }
+  .content pre, .code-block { overflow-x: auto; }
+  .code-block { margin: 12px 0; border-radius: 8px; overflow: hidden; }
+  .code-header { background: #27272a; color: #d4d4d8; font: 12px monospace; padding: 6px 12px; }
+  .inline-code { background: #e4e4e7; border-radius: 4px; padding: 1px 4px; font-size: 0.95em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d4d4d8; padding: 4px 8px; }
+`;
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * A standalone HTML page of the active path. Code is highlighted with
+ * inline styles and images are embedded, so nothing is fetched on open.
+ */
+export async function toHtml({
+  chat,
+  thread,
+}: ExportableChat): Promise<ExportedFile> {
+  const messages = getActivePath(thread);
+
+  const imageUrls: Record<string, string> = {};
+  for (const attachment of messages.flatMap((m) => m.attachments ?? [])) {
+    if (!isImage(attachment)) continue;
+    const url = await attachmentToDataUrl(attachment);
+    if (url) imageUrls[attachment.id] = url;
+  }
+
+  // Only needed here, so keep react-dom/server out of the main bundle
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  const body = renderToStaticMarkup(
+    createElement(ChatExportDocument, { title: chat.title, messages, imageUrls })
+  );
+
+  return {
+    content: `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(chat.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>${body}</body>
+</html>
+`,
+    mime: "text/html",
+    extension: "html",
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Chat export.
+ *
+ * Turns a chat from `messagesByChatId` (or IndexedDB, when it is not
+ * loaded) into a downloadable file:
+ * - Markdown: the active path with role headings
+ * - JSON: the lossless tree, readable by the importer
+ * - HTML: a self-contained page with highlighted code
+ */
+import { useChatListStore } from "@/store/useChatListStore";
+import { readChatThread } from "@/store/useChatStore";
+import { emptyThread } from "@/lib/messageTree";
+import { toHtml } from "./html";
+import { toJson } from "./json";
+import { toMarkdown } from "./markdown";
+import type { ExportableChat, ExportedFile, ExportFormat } from "./types";
+
+export type { ExportFormat } from "./types";
+export { CHAT_EXPORT_FORMAT, CHAT_EXPORT_VERSION, type ChatExport } from "./json";
+
+const exporters: Record<
+  ExportFormat,
+  (chat: ExportableChat) => ExportedFile | Promise<ExportedFile>
+> = {
+  markdown: toMarkdown,
+  json: toJson,
+  html: toHtml,
+};
+
+function fileName(title: string, extension: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${extension}`;
+}
+
+function download(file: ExportedFile, name: string) {
+  const url = URL.createObjectURL(
+    new Blob([file.content], { type: `${file.mime};charset=utf-8` })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function exportChat(chatId: string, format: ExportFormat) {
+  const chat = useChatListStore.getState().chats.find((c) => c.id === chatId);
+  if (!chat) return;
+
+  const thread = (await readChatThread(chatId)) ?? emptyThread();
+  const file = await exporters[format]({ chat, thread });
+  download(file, fileName(chat.title, file.extension));
+}
@@ -0,0 +1,49 @@
+/**
+ * JSON export: the lossless format, read back by the native importer
+ * (`lib/import/native`).
+ *
+ * Carries a format version; the importer refuses files made by a newer
+ * version of the app.
+ */
+import type { ChatSession } from "@/store/useChatListStore";
+import type { ChatThread } from "@/types/chat";
+import type { ExportableChat, ExportedFile } from "./types";
+
+export const CHAT_EXPORT_FORMAT = "chat-export";
+export const CHAT_EXPORT_VERSION = 1;
+
+/**
+ * Shape of a JSON export. The whole tree is kept, so branches, versions,
+ * timestamps (as ISO strings) and attachment metadata survive a round
+ * trip. Attachment bytes are not included.
+ */
+export interface ChatExport {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: typeof CHAT_EXPORT_VERSION;
+  exportedAt: string;
+  chat: ChatSession;
+  thread: ChatThread;
+}
+
+export function toJson({ chat, thread }: ExportableChat): ExportedFile {
+  const data: ChatExport = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Sync bookkeeping is specific to this browser, so it stays out
+    chat: {
+      id: chat.id,
+      title: chat.title,
+      createdAt: chat.createdAt,
+      model: chat.model,
+      params: chat.params,
+    },
+    thread,
+  };
+
+  return {
+    content: JSON.stringify(data, null, 2),
+    mime: "application/json",
+    extension: "json",
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Markdown export: the conversation as it reads on screen.
+ *
+ * Only the active path is written, with a heading per message and
+ * attachments listed by name; branches and other versions are left out.
+ */
+import { formatBytes } from "@/lib/attachments";
+import { getActivePath } from "@/lib/messageTree";
+import { INTERRUPTED_LABEL } from "@/types/chat";
+import type { ExportableChat, ExportedFile } from "./types";
+
+const ROLE_HEADINGS = { user: "You", assistant: "Assistant" } as const;
+
+/**
+ * The active path as Markdown, one `##` heading per message. Attachments
+ * are listed by name only; branches are not included.
+ */
+export function toMarkdown({ chat, thread }: ExportableChat): ExportedFile {
+  const sections = getActivePath(thread).map((message) => {
+    const lines = [`## ${ROLE_HEADINGS[message.role]}`, "", message.content];
+
+    if (message.attachments?.length) {
+      lines.push(
+        "",
+        ...message.attachments.map(
+          (a) => `- 📎 ${a.name} (${formatBytes(a.size)})`
+        )
+      );
+    }
+    if (message.interrupted) lines.push("", `_${INTERRUPTED_LABEL}_`);
+
+    return lines.join("\n");
+  });
+
+  return {
+    content: [`# ${chat.title}`, ...sections].join("\n\n") + "\n",
+    mime: "text/markdown",
+    extension: "md",
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * Shared shapes of the chat exporters: what they are given and the file
+ * they produce.
+ */
+import type { ChatSession } from "@/store/useChatListStore";
+import type { ChatThread } from "@/types/chat";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+/**
+ * Everything an exporter needs: the chat's metadata and its full tree.
+ */
+export interface ExportableChat {
+  chat: ChatSession;
+  thread: ChatThread;
+}
+
+export interface ExportedFile {
+  content: string;
+  mime: string;
+  extension: string;
+}
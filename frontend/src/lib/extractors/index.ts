@@ -0,0 +1,32 @@
+/**
+ * Extractor registry.
+ *
+ * The first extractor whose `matches` accepts the file wins. Add a format
+ * by implementing `TextExtractor` and calling `registerExtractor`;
+ * registered extractors take precedence over the built-in ones.
+ */
+import { jsonExtractor } from "./json";
+import { pdfExtractor } from "./pdf";
+import { textExtractor } from "./text";
+import type { ExtractableFile, TextExtractor } from "./types";
+
+export type { ExtractableFile, TextExtractor } from "./types";
+
+// JSON before text: .json would otherwise match as plain text
+const extractors: TextExtractor[] = [jsonExtractor, pdfExtractor, textExtractor];
+
+export function registerExtractor(extractor: TextExtractor) {
+  extractors.unshift(extractor);
+}
+
+export function findExtractor(file: ExtractableFile) {
+  return extractors.find((e) => e.matches(file));
+}
+
+/**
+ * Text content of `file`, or null when no extractor supports it.
+ */
+export async function extractText(file: File) {
+  const extractor = findExtractor(file);
+  return extractor ? extractor.extract(file) : null;
+}
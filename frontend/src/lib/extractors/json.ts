@@ -0,0 +1,22 @@
+/**
+ * JSON files, re-indented so minified documents stay readable for the
+ * model. Invalid JSON is passed through unchanged.
+ */
+import { extensionOf } from "./text";
+import type { TextExtractor } from "./types";
+
+export const jsonExtractor: TextExtractor = {
+  id: "json",
+
+  matches: (file) =>
+    file.type === "application/json" || extensionOf(file.name) === "json",
+
+  async extract(file) {
+    const raw = await file.text();
+    try {
+      return JSON.stringify(JSON.parse(raw), null, 2);
+    } catch {
+      return raw;
+    }
+  },
+};
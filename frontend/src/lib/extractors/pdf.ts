@@ -0,0 +1,47 @@
+/**
+ * PDF text extraction with pdf.js.
+ *
+ * pdf.js is large, so it is loaded on first use only. Pages are joined
+ * with form feeds and labeled, so the model can cite page numbers.
+ */
+import { extensionOf } from "./text";
+import type { TextExtractor } from "./types";
+
+async function loadPdfjs() {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+}
+
+export const pdfExtractor: TextExtractor = {
+  id: "pdf",
+
+  matches: (file) =>
+    file.type === "application/pdf" || extensionOf(file.name) === "pdf",
+
+  async extract(file) {
+    const pdfjs = await loadPdfjs();
+    const doc = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+      .promise;
+
+    try {
+      const pages: string[] = [];
+
+      for (let n = 1; n <= doc.numPages; n++) {
+        const page = await doc.getPage(n);
+        const content = await page.getTextContent();
+        const text = content.items
+          .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+          .join("");
+        pages.push(`[Page ${n}]\n${text.trim()}`);
+      }
+
+      return pages.join("\n\f\n");
+    } finally {
+      await doc.destroy();
+    }
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Plain-text formats: .txt, .md, .csv and source code.
+ * Browsers often report an empty mime type for code files, so
+ * extensions are checked as well.
+ */
+import type { TextExtractor } from "./types";
+
+const TEXT_EXTENSIONS = new Set([
+  "txt", "md", "markdown", "csv", "tsv", "log", "xml", "html", "css",
+  "yml", "yaml", "toml", "ini", "env", "sql", "sh", "bash", "zsh",
+  "js", "jsx", "ts", "tsx", "mjs", "cjs", "py", "rb", "go", "rs", "java",
+  "kt", "swift", "c", "h", "cpp", "hpp", "cs", "php", "lua", "r", "scala",
+  "vue", "svelte",
+]);
+
+export function extensionOf(name: string) {
+  return name.split(".").pop()?.toLowerCase() ?? "";
+}
+
+export const textExtractor: TextExtractor = {
+  id: "text",
+
+  matches: (file) =>
+    file.type.startsWith("text/") || TEXT_EXTENSIONS.has(extensionOf(file.name)),
+
+  extract: (file) => file.text(),
+};
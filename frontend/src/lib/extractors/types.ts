@@ -0,0 +1,17 @@
+/**
+ * Contract for in-browser text extraction from attached files.
+ */
+
+export interface ExtractableFile {
+  name: string;
+  type: string;
+}
+
+export interface TextExtractor {
+  id: string;
+
+  // Whether this extractor understands the file (by mime type or extension)
+  matches: (file: ExtractableFile) => boolean;
+
+  extract: (file: Blob) => Promise<string>;
+}
@@ -0,0 +1,190 @@
+/**
+ * generate.ts
+ * ----------------
+ * Drives assistant replies from a provider into the chat stores.
+ *
+ * Responsibilities:
+ * - Collect the conversation history for a chat
+ * - Insert a placeholder assistant message (or a new version of one)
+ * - Grow that message token by token as the provider streams
+ * - Toggle the global streaming flag around the request
+ * - Keep partial output and mark the reply as interrupted when aborted
+ * - Report how a reply ended, so unreachable servers can be retried
+ * - Hold a per-chat Web Lock while streaming, so only one tab at a time
+ *   writes a reply into a chat
+ *
+ * Architecture Role:
+ * - Glue between the provider layer (`lib/providers`) and the stores.
+ * - New replies are queued through `api/outbox` (`requestReply`), which
+ *   calls `replyTo`; regenerations call `regenerateReply` directly.
+ *   Components never talk to providers.
+ * - The AbortController lives in `useUIStore` so the Stop button,
+ *   chat switching and logout can all cancel the request.
+ */
+import type { Message } from "@/types/chat";
+import { NetworkError } from "@/api/errors";
+import { getPathTo } from "@/lib/messageTree";
+import { getProvider } from "@/lib/providers";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { useUIStore } from "@/store/useUIStore";
+
+/**
+ * How a reply ended. "unreachable" means the request never got an answer
+ * (offline, DNS, refused connection) and is worth retrying as is; "busy"
+ * means another tab is streaming into the chat and nothing was started.
+ */
+export type ReplyOutcome =
+  | "done"
+  | "aborted"
+  | "failed"
+  | "unreachable"
+  | "busy";
+
+/**
+ * Runs `stream` holding the chat's streaming lock, or returns "busy" when
+ * another tab holds it. Browsers without Web Locks have a single owner.
+ */
+async function withStreamLock(
+  chatId: string,
+  stream: () => Promise<ReplyOutcome>
+): Promise<ReplyOutcome> {
+  if (!navigator.locks) return stream();
+
+  // The lock is held until the promise returned by the callback settles
+  const outcome = await navigator.locks.request(
+    `chat-stream:${chatId}`,
+    { ifAvailable: true },
+    (lock) => (lock ? stream() : Promise.resolve<ReplyOutcome>("busy"))
+  );
+  return outcome;
+}
+
+function isNetworkError(err: unknown) {
+  // A stream cut off mid-reply rejects with a TypeError
+  return (
+    !navigator.onLine ||
+    err instanceof NetworkError ||
+    err instanceof TypeError
+  );
+}
+
+/**
+ * Streams a completion for `history` into the existing message `assistantId`.
+ */
+async function streamInto(
+  chatId: string,
+  assistantId: string,
+  history: Message[]
+): Promise<ReplyOutcome> {
+  const ui = useUIStore.getState();
+  // Only one reply streams at a time
+  ui.stopStreaming();
+
+  const controller = new AbortController();
+  ui.setStreamController(chatId, controller);
+  ui.setStreaming(true);
+
+  let content = "";
+  let outcome: ReplyOutcome = "done";
+  try {
+    const chat = useChatListStore.getState().chats.find((c) => c.id === chatId);
+    const settings = useSettingsStore.getState();
+    const model = chat?.model ?? settings.defaultModel;
+
+    const provider = getProvider(model.providerId);
+    const stream = provider.streamChat({
+      model: model.modelId,
+      params: chat?.params ?? settings.defaultParams,
+      messages: history,
+      signal: controller.signal,
+    });
+
+    for await (const token of stream) {
+      content += token;
+      useChatStore.getState().updateMessage(chatId, assistantId, content);
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      outcome = "aborted";
+      // Partial content is already in the store — just flag it
+      useChatStore
+        .getState()
+        .patchMessage(chatId, assistantId, { interrupted: true });
+    } else {
+      outcome = isNetworkError(err) ? "unreachable" : "failed";
+      const reason = err instanceof Error ? err.message : String(err);
+      content += `${content ? "\n\n" : ""}⚠️ ${reason}`;
+      useChatStore.getState().updateMessage(chatId, assistantId, content);
+    }
+  } finally {
+    // A newer request may have replaced ours in the meantime
+    if (useUIStore.getState().streamController === controller) {
+      ui.setStreamController(null, null);
+      ui.setStreaming(false);
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Streams the reply `replyId` to the user message `parentId`.
+ *
+ * The reply id is chosen by the caller, so running this again (a retry)
+ * restarts the same reply in place instead of adding another one.
+ */
+export async function replyTo(
+  chatId: string,
+  parentId: string,
+  replyId: string
+): Promise<ReplyOutcome> {
+  // Queued replies may target a chat that was evicted meanwhile
+  await useChatStore.getState().loadChat(chatId);
+
+  return withStreamLock(chatId, () => {
+    const store = useChatStore.getState();
+    const thread = store.messagesByChatId[chatId];
+    // The prompt was deleted meanwhile — nothing left to answer
+    if (!thread?.nodes[parentId]) return Promise.resolve("aborted");
+
+    if (thread.nodes[replyId]) {
+      store.patchMessage(chatId, replyId, {
+        content: "",
+        interrupted: undefined,
+        timestamp: new Date(),
+      });
+    } else {
+      store.addMessage(
+        chatId,
+        { id: replyId, role: "assistant", content: "", timestamp: new Date() },
+        parentId
+      );
+    }
+
+    return streamInto(chatId, replyId, getPathTo(thread, parentId));
+  });
+}
+
+/**
+ * Produces a new version of the assistant reply `messageId`,
+ * answering the same prompt. Earlier versions are kept.
+ */
+export async function regenerateReply(
+  chatId: string,
+  messageId: string
+): Promise<ReplyOutcome> {
+  return withStreamLock(chatId, () => {
+    const thread = useChatStore.getState().messagesByChatId[chatId];
+    const message = thread?.nodes[messageId];
+    if (!message || message.role !== "assistant") {
+      return Promise.resolve("aborted");
+    }
+
+    const history = getPathTo(thread, message.parentId);
+    useChatStore.getState().addMessageVersion(chatId, messageId);
+
+    return streamInto(chatId, messageId, history);
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * idb.ts
+ * ----------------
+ * Tiny promise wrapper around the IndexedDB API.
+ *
+ * Only what the app needs: open a versioned database, await requests and
+ * transactions. Callers own their schema through the `upgrade` callback.
+ */
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Aborted", "AbortError"));
+  });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens (and creates/upgrades) a database. The connection is cached per
+ * name, so repeated calls are cheap.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void
+): Promise<IDBDatabase> {
+  let connection = connections.get(name);
+
+  if (!connection) {
+    connection = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+
+      request.onupgradeneeded = (event) => {
+        upgrade(request.result, event.oldVersion, request.transaction!);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let other tabs upgrade the schema instead of blocking them
+        db.onversionchange = () => {
+          db.close();
+          connections.delete(name);
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        connections.delete(name);
+        reject(request.error);
+      };
+    });
+
+    connections.set(name, connection);
+  }
+
+  return connection;
+}
+
+/**
+ * Deletes a database with all its data, closing our connection first.
+ * Connections in other tabs close themselves (see `onversionchange`).
+ */
+export async function deleteDatabase(name: string): Promise<void> {
+  const connection = connections.get(name);
+  connections.delete(name);
+  await connection?.then((db) => db.close()).catch(() => {});
+
+  await promisifyRequest(indexedDB.deleteDatabase(name));
+}
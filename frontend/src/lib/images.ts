@@ -0,0 +1,79 @@
+/**
+ * images.ts
+ * ----------------
+ * Client-side image downscaling before upload.
+ *
+ * Large photos waste IndexedDB space and provider bandwidth, and most
+ * vision models resize them anyway. Images larger than the configured
+ * dimension or byte size are scaled to fit and re-encoded; everything
+ * else is returned untouched.
+ */
+
+export interface ImageLimits {
+  // Longest edge in pixels
+  maxDimension: number;
+  maxBytes: number;
+}
+
+// Formats that lose animation or vector data when drawn to a canvas
+const PASSTHROUGH = new Set(["image/gif", "image/svg+xml"]);
+
+const OUTPUT_TYPE = "image/webp";
+const OUTPUT_QUALITY = 0.85;
+
+function loadImage(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode ${file.name}`));
+    };
+    img.src = url;
+  });
+}
+
+function replaceExtension(name: string, mime: string) {
+  const ext = mime.split("/")[1] ?? "img";
+  return name.replace(/\.[^.]+$/, "") + `.${ext}`;
+}
+
+export async function downscaleImage(
+  file: File,
+  limits: ImageLimits
+): Promise<File> {
+  if (!file.type.startsWith("image/") || PASSTHROUGH.has(file.type)) {
+    return file;
+  }
+
+  const img = await loadImage(file);
+  const longest = Math.max(img.naturalWidth, img.naturalHeight);
+
+  if (longest <= limits.maxDimension && file.size <= limits.maxBytes) {
+    return file;
+  }
+
+  const scale = Math.min(1, limits.maxDimension / longest);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, OUTPUT_TYPE, OUTPUT_QUALITY)
+  );
+
+  // Re-encoding can fail or grow tiny images; keep the original then
+  if (!blob || blob.size >= file.size) return file;
+
+  // Browsers without WebP encoding fall back to PNG — name the file after
+  // what was actually produced
+  return new File([blob], replaceExtension(file.name, blob.type), {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Claude's `conversations.json` (from "Export data" in its settings) and
+ * other exports in the same shape.
+ *
+ * Messages are listed oldest first. Newer exports link each message to
+ * its parent, which keeps edits and retries as branches; older ones are
+ * a single linear path. Only the text of attachments was exported, so
+ * files are not restored.
+ */
+import {
+  buildThread,
+  isRecord,
+  sortParentsFirst,
+  toDate,
+  type ImportedMessage,
+} from "./tree";
+import type { ChatImporter, ImportedChat } from "./types";
+
+interface AnthropicMessage {
+  uuid: string;
+  sender?: string;
+  text?: string;
+  content?: { type?: string; text?: string }[];
+  created_at?: string;
+  parent_message_uuid?: string;
+}
+
+interface AnthropicConversation {
+  uuid?: string;
+  name?: string;
+  created_at?: string;
+  current_leaf_message_uuid?: string;
+  chat_messages: AnthropicMessage[];
+}
+
+function isConversation(value: unknown): value is AnthropicConversation {
+  return isRecord(value) && Array.isArray(value.chat_messages);
+}
+
+function messageText(message: AnthropicMessage) {
+  const blocks = message.content
+    ?.filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text);
+  return blocks?.length ? blocks.join("\n\n") : (message.text ?? "");
+}
+
+function parseConversation(conversation: AnthropicConversation): ImportedChat {
+  const source = conversation.chat_messages.filter(
+    (m) => m.uuid && (m.sender === "human" || m.sender === "assistant")
+  );
+  const hasParents = source.some((m) => m.parent_message_uuid);
+
+  const messages: ImportedMessage[] = source.map((m, i) => ({
+    // Unknown parents (e.g. the all-zero root marker) become roots
+    parentId: hasParents
+      ? (m.parent_message_uuid ?? null)
+      : (source[i - 1]?.uuid ?? null),
+    message: {
+      id: m.uuid,
+      role: m.sender === "human" ? "user" : "assistant",
+      content: messageText(m),
+      timestamp: toDate(m.created_at),
+    },
+  }));
+
+  const leafId =
+    conversation.current_leaf_message_uuid ?? source[source.length - 1]?.uuid;
+
+  return {
+    key: crypto.randomUUID(),
+    source: anthropicImporter.name,
+    chat: {
+      id: crypto.randomUUID(),
+      title: conversation.name?.trim() || "Untitled chat",
+      createdAt: toDate(conversation.created_at).getTime(),
+      ...(conversation.uuid && { sourceId: `claude:${conversation.uuid}` }),
+    },
+    thread: buildThread(sortParentsFirst(messages), leafId),
+  };
+}
+
+export const anthropicImporter: ChatImporter = {
+  name: "Claude",
+
+  matches: (data) =>
+    Array.isArray(data) ? data.some(isConversation) : isConversation(data),
+
+  parse: (data) =>
+    (Array.isArray(data) ? data : [data])
+      .filter(isConversation)
+      .map(parseConversation),
+};
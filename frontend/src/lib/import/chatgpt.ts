@@ -0,0 +1,123 @@
+/**
+ * ChatGPT's `conversations.json` (from "Export data" in its settings).
+ *
+ * Each conversation is a tree in `mapping`; `current_node` is the leaf of
+ * the branch that was on screen. System prompts, tool calls and hidden
+ * nodes are skipped and their children re-attached to the nearest kept
+ * ancestor. Uploaded files and images are not part of the export.
+ */
+import {
+  buildThread,
+  isRecord,
+  sortParentsFirst,
+  toDate,
+  type ImportedMessage,
+} from "./tree";
+import type { ChatImporter, ImportedChat } from "./types";
+
+interface ChatGptNode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    id: string;
+    author?: { role?: string };
+    create_time?: number | null;
+    recipient?: string;
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    metadata?: { is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGptNode>;
+}
+
+function isConversation(value: unknown): value is ChatGptConversation {
+  return isRecord(value) && isRecord(value.mapping);
+}
+
+function visibleText(node: ChatGptNode) {
+  const message = node.message;
+  const role = message?.author?.role;
+
+  if (!message || (role !== "user" && role !== "assistant")) return null;
+  if (message.metadata?.is_visually_hidden_from_conversation) return null;
+  if (message.recipient && message.recipient !== "all") return null;
+
+  const content = message.content;
+  const text =
+    content?.parts
+      ?.filter((part): part is string => typeof part === "string")
+      .join("\n") ?? content?.text;
+
+  return text?.trim() ? text : null;
+}
+
+function parseConversation(conversation: ChatGptConversation): ImportedChat {
+  const { mapping } = conversation;
+  const kept = new Set(
+    Object.values(mapping)
+      .filter((node) => visibleText(node) !== null)
+      .map((node) => node.id)
+  );
+
+  // Nearest kept ancestor, skipping hidden nodes in between
+  const keptParent = (node: ChatGptNode) => {
+    let id = node.parent ?? null;
+    while (id && !kept.has(id)) id = mapping[id]?.parent ?? null;
+    return id;
+  };
+
+  const messages: ImportedMessage[] = [...kept].map((id) => {
+    const node = mapping[id];
+    return {
+      parentId: keptParent(node),
+      message: {
+        id,
+        role: node.message!.author!.role as "user" | "assistant",
+        content: visibleText(node)!,
+        timestamp: toDate(node.message?.create_time),
+      },
+    };
+  });
+  // Siblings in creation order, so the newest branch comes last
+  messages.sort(
+    (a, b) => a.message.timestamp.getTime() - b.message.timestamp.getTime()
+  );
+
+  // `current_node` may itself be hidden (e.g. a trailing tool call)
+  let leafId = conversation.current_node ?? null;
+  while (leafId && !kept.has(leafId)) leafId = mapping[leafId]?.parent ?? null;
+
+  const createdAt = toDate(conversation.create_time).getTime();
+  const sourceId = conversation.conversation_id ?? conversation.id;
+
+  return {
+    key: crypto.randomUUID(),
+    source: chatGptImporter.name,
+    chat: {
+      id: crypto.randomUUID(),
+      title: conversation.title?.trim() || "Untitled chat",
+      createdAt,
+      ...(sourceId && { sourceId: `chatgpt:${sourceId}` }),
+    },
+    thread: buildThread(sortParentsFirst(messages), leafId),
+  };
+}
+
+export const chatGptImporter: ChatImporter = {
+  name: "ChatGPT",
+
+  matches: (data) =>
+    Array.isArray(data) ? data.some(isConversation) : isConversation(data),
+
+  parse: (data) =>
+    (Array.isArray(data) ? data : [data])
+      .filter(isConversation)
+      .map(parseConversation),
+};
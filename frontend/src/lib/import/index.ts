@@ -0,0 +1,93 @@
+/**
+ * Chat import.
+ *
+ * Reads export files from other assistants (and our own), previews them
+ * as `ImportedChat`s and writes the chosen ones into the chat stores.
+ * The first importer whose `matches` accepts a file's JSON parses it;
+ * add a format by implementing `ChatImporter` and calling
+ * `registerImporter`.
+ */
+import { useChatListStore, type ChatSession } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { getActivePath, threadFromMessages } from "@/lib/messageTree";
+import { anthropicImporter } from "./anthropic";
+import { chatGptImporter } from "./chatgpt";
+import { nativeImporter } from "./native";
+import type { ChatImporter, ImportedChat } from "./types";
+
+export type { ChatImporter, ImportedChat } from "./types";
+
+const importers: ChatImporter[] = [
+  nativeImporter,
+  chatGptImporter,
+  anthropicImporter,
+];
+
+export function registerImporter(importer: ChatImporter) {
+  importers.unshift(importer);
+}
+
+/**
+ * Conversations in `file`. Throws when it is not JSON or not a format
+ * any importer understands.
+ */
+export async function parseImportFile(file: File): Promise<ImportedChat[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a JSON file`);
+  }
+
+  const importer = importers.find((i) => i.matches(data));
+  if (!importer) {
+    throw new Error(`${file.name} is not a supported chat export`);
+  }
+  return importer.parse(data);
+}
+
+/**
+ * Whether `imported` is already in the chat list: imported before from
+ * the same source conversation, the same chat (our own exports keep
+ * ids), or one with the same title started at the same time.
+ */
+export function isDuplicate(imported: ImportedChat, chats: ChatSession[]) {
+  const { sourceId } = imported.chat;
+  if (sourceId && chats.some((c) => c.sourceId === sourceId)) return true;
+
+  return chats.some(
+    (c) =>
+      c.id === imported.chat.id ||
+      (c.title === imported.chat.title &&
+        c.createdAt === imported.chat.createdAt)
+  );
+}
+
+export function countMessages(imported: ImportedChat) {
+  return Object.keys(imported.thread.nodes).length;
+}
+
+/**
+ * Writes `chats` to the stores. Without `keepBranches`, only each chat's
+ * selected path is kept. Chats whose id is taken get a new one.
+ */
+export function importChats(
+  chats: ImportedChat[],
+  { keepBranches }: { keepBranches: boolean }
+) {
+  const taken = new Set(useChatListStore.getState().chats.map((c) => c.id));
+
+  useChatStore.getState().importChats(
+    chats.map(({ chat, thread }) => {
+      const id = taken.has(chat.id) ? crypto.randomUUID() : chat.id;
+      taken.add(id);
+
+      return {
+        chat: { ...chat, id },
+        thread: keepBranches
+          ? thread
+          : threadFromMessages(getActivePath(thread)),
+      };
+    })
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * This app's own JSON export (see `lib/export/json`). The tree is stored
+ * as-is, so it comes back unchanged apart from revived dates.
+ */
+import {
+  CHAT_EXPORT_FORMAT,
+  CHAT_EXPORT_VERSION,
+  type ChatExport,
+} from "@/lib/export";
+import { reviveThread } from "@/lib/messageTree";
+import { isRecord } from "./tree";
+import type { ChatImporter } from "./types";
+
+function isChatExport(value: unknown): value is ChatExport {
+  return isRecord(value) && value.format === CHAT_EXPORT_FORMAT;
+}
+
+export const nativeImporter: ChatImporter = {
+  name: "This app",
+
+  matches: (data) =>
+    Array.isArray(data) ? data.some(isChatExport) : isChatExport(data),
+
+  parse: (data) =>
+    (Array.isArray(data) ? data : [data]).filter(isChatExport).map((file) => {
+      if (file.version > CHAT_EXPORT_VERSION) {
+        throw new Error(
+          `This export is from a newer version of the app (v${file.version})`
+        );
+      }
+
+      return {
+        key: crypto.randomUUID(),
+        source: nativeImporter.name,
+        chat: file.chat,
+        thread: reviveThread(file.thread),
+      };
+    }),
+};
@@ -0,0 +1,70 @@
+import {
+  appendMessage,
+  emptyThread,
+  getPathTo,
+  selectNode,
+  sortParentsFirst as sortNodesParentsFirst,
+} from "@/lib/messageTree";
+import type { ChatThread, Message } from "@/types/chat";
+
+export interface ImportedMessage {
+  message: Message;
+  parentId: string | null;
+}
+
+/**
+ * Builds a thread from messages listed parents before children. Messages
+ * whose parent is missing become roots. With `leafId`, the path to it is
+ * selected; otherwise the newest branch at each fork is.
+ */
+export function buildThread(
+  messages: ImportedMessage[],
+  leafId?: string | null
+): ChatThread {
+  let thread = emptyThread();
+
+  for (const { message, parentId } of messages) {
+    if (thread.nodes[message.id]) continue;
+    const parent = parentId && thread.nodes[parentId] ? parentId : null;
+    thread = appendMessage(thread, message, parent);
+  }
+
+  if (leafId && thread.nodes[leafId]) {
+    for (const node of getPathTo(thread, leafId)) {
+      thread = selectNode(thread, node.id);
+    }
+  }
+
+  return thread;
+}
+
+/**
+ * Orders messages so every parent comes before its children (sources
+ * list tree nodes in arbitrary order).
+ */
+export function sortParentsFirst(messages: ImportedMessage[]) {
+  return sortNodesParentsFirst(
+    messages.map((entry) => ({
+      id: entry.message.id,
+      parentId: entry.parentId,
+      entry,
+    }))
+  ).map(({ entry }) => entry);
+}
+
+/** Dates, seconds (ChatGPT) or ISO strings (everyone else) as a Date. */
+export function toDate(value: unknown, fallback = new Date()) {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === "number"
+        ? new Date(value * 1000)
+        : typeof value === "string"
+          ? new Date(value)
+          : fallback;
+  return Number.isNaN(date.getTime()) ? fallback : date;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
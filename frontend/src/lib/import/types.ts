@@ -0,0 +1,22 @@
+import type { ChatSession } from "@/store/useChatListStore";
+import type { ChatThread } from "@/types/chat";
+
+/**
+ * One conversation parsed from an import file, not yet written to the
+ * stores. `chat.id` is final unless it collides with an existing chat.
+ */
+export interface ImportedChat {
+  // Stable key for the preview list (ids may repeat across files)
+  key: string;
+  source: string;
+  chat: ChatSession;
+  thread: ChatThread;
+}
+
+export interface ChatImporter {
+  // Shown in the preview, e.g. "ChatGPT"
+  name: string;
+  // Whether the parsed JSON looks like this importer's format
+  matches: (data: unknown) => boolean;
+  parse: (data: unknown) => ImportedChat[];
+}
@@ -0,0 +1,132 @@
+/**
+ * localChats.ts
+ * ----------------
+ * Moves chats kept only in this browser into the account that signs in.
+ *
+ * Responsibilities:
+ * - Tell whether a local namespace has chats, without loading it: guest
+ *   mode, or the data kept without an account (null), which is where
+ *   everything from before accounts lives
+ * - Copy those chats, messages and attachments into the current
+ *   account, from where they sync like any new chat
+ * - Give chats whose id is already taken in the account (here or only
+ *   on the server) a new id; a chat that is in both (e.g. restored from
+ *   the same backup) is merged instead
+ * - Delete the local data once it is moved, or when it is discarded
+ *
+ * This is the only way local-only data enters an account's namespace.
+ */
+import type { StorageValue } from "zustand/middleware";
+import { listChats } from "@/api/chats";
+import { useChatListStore, type ChatSession } from "@/store/useChatListStore";
+import { deleteNamespaceData, switchAccount } from "./accounts";
+import {
+  createBackup,
+  restoreBackup,
+  type WorkspaceBackup,
+} from "./backup";
+import {
+  getNamespace,
+  GUEST_NAMESPACE,
+  scopedName,
+  type LocalNamespace,
+} from "./namespace";
+
+// Offered in this order when more than one has chats
+const localNamespaces: LocalNamespace[] = [GUEST_NAMESPACE, null];
+
+/** Chats of `source` not in the trash, read straight from storage. */
+export function countLocalChats(source: LocalNamespace) {
+  const key = scopedName(useChatListStore.persist.getOptions().name!, source);
+  const raw = localStorage.getItem(key);
+  if (!raw) return 0;
+
+  try {
+    const { state } = JSON.parse(raw) as StorageValue<{
+      chats?: ChatSession[];
+    }>;
+    return state.chats?.filter((c) => !c.deletedAt).length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * The first local namespace with chats to offer the signed-in account,
+ * or undefined when there is none (or nobody is signed in).
+ */
+export function nextLocalChats(): LocalNamespace | undefined {
+  const accountId = getNamespace();
+  if (!accountId || accountId === GUEST_NAMESPACE) return undefined;
+
+  return localNamespaces.find((source) => countLocalChats(source) > 0);
+}
+
+/**
+ * Reads the `source` workspace by switching to it for a moment; ends up
+ * back in `accountId` even when reading fails. For the null namespace
+ * this is also when pre-IndexedDB chat history gets imported.
+ */
+async function readLocalWorkspace(source: LocalNamespace, accountId: string) {
+  try {
+    await switchAccount(source);
+    return await createBackup();
+  } finally {
+    await switchAccount(accountId);
+  }
+}
+
+/**
+ * `local` with chats whose id the account already uses for another
+ * chat renamed.
+ */
+function renameTakenChats(
+  local: WorkspaceBackup,
+  existing: ChatSession[],
+  remoteIds: Set<string>
+): WorkspaceBackup {
+  const existingById = new Map(existing.map((c) => [c.id, c]));
+  const threads = { ...local.threads };
+
+  const chats = local.chats.map((chat) => {
+    const taken = existingById.get(chat.id);
+    // Same chat: restoring merges the local messages into it
+    if (taken?.createdAt === chat.createdAt) return chat;
+    if (!taken && !remoteIds.has(chat.id)) return chat;
+
+    const id = crypto.randomUUID();
+    threads[id] = threads[chat.id];
+    delete threads[chat.id];
+    return { ...chat, id };
+  });
+
+  return { ...local, chats, threads };
+}
+
+/**
+ * Moves every chat of `source` into the signed-in account and deletes
+ * the local data. Resolves with the number of chats moved.
+ */
+export async function moveLocalChats(source: LocalNamespace) {
+  const accountId = getNamespace();
+  if (!accountId || accountId === GUEST_NAMESPACE) return 0;
+
+  const local = await readLocalWorkspace(source, accountId);
+
+  // The server may have chats this browser hasn't pulled yet
+  const remote = await listChats();
+  const moved = renameTakenChats(
+    local,
+    useChatListStore.getState().chats,
+    new Set(remote.map((c) => c.id))
+  );
+
+  await restoreBackup(moved, "merge");
+  await deleteNamespaceData(source);
+  return moved.chats.length;
+}
+
+/** Deletes the chats of `source` without moving them anywhere. */
+export async function discardLocalChats(source: LocalNamespace) {
+  await deleteNamespaceData(source);
+}
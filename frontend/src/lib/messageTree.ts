@@ -0,0 +1,213 @@
+/**
+ * messageTree.ts
+ * ----------------
+ * Pure helpers for conversation trees (`ChatThread`).
+ *
+ * A chat is stored as a tree of messages: each node knows its parent and
+ * children, and every fork remembers which child is selected. The
+ * "active path" (root → selected children → leaf) is what the UI renders
+ * and what gets sent to the model.
+ *
+ * All functions are immutable — they return new threads and never touch
+ * their input, so they can be used directly inside zustand `set` calls.
+ */
+import type { ChatThread, Message, MessageNode } from "@/types/chat";
+
+/**
+ * `messages` (with their parent ids) reordered so every parent comes
+ * before its children; otherwise the order is kept. Parents missing
+ * from the list don't hold their children back.
+ */
+export function sortParentsFirst<
+  T extends { id: string; parentId: string | null },
+>(messages: T[]): T[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const sorted: T[] = [];
+  const visited = new Set<string>();
+
+  const visit = (message: T) => {
+    if (visited.has(message.id)) return;
+    visited.add(message.id);
+
+    const parent = message.parentId ? byId.get(message.parentId) : undefined;
+    if (parent) visit(parent);
+    sorted.push(message);
+  };
+
+  messages.forEach(visit);
+  return sorted;
+}
+
+export function emptyThread(): ChatThread {
+  return { nodes: {}, rootIds: [] };
+}
+
+function activeChild(ids: string[], selected?: string) {
+  return selected && ids.includes(selected) ? selected : ids[ids.length - 1];
+}
+
+/**
+ * Messages on the active path, oldest first.
+ */
+export function getActivePath(thread: ChatThread | undefined): MessageNode[] {
+  if (!thread) return [];
+
+  const path: MessageNode[] = [];
+  let id = activeChild(thread.rootIds, thread.activeRootId);
+
+  while (id) {
+    const node: MessageNode | undefined = thread.nodes[id];
+    if (!node) break;
+    path.push(node);
+    id = activeChild(node.childIds, node.activeChildId);
+  }
+
+  return path;
+}
+
+/**
+ * Messages from the root down to `id` (inclusive), oldest first.
+ */
+export function getPathTo(thread: ChatThread, id: string | null) {
+  const path: MessageNode[] = [];
+  let node = id ? thread.nodes[id] : undefined;
+
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? thread.nodes[node.parentId] : undefined;
+  }
+
+  return path;
+}
+
+export function getLeafId(thread: ChatThread) {
+  const path = getActivePath(thread);
+  return path[path.length - 1]?.id ?? null;
+}
+
+/**
+ * Ids of `id` and its siblings, in creation order.
+ */
+export function getSiblingIds(thread: ChatThread, id: string) {
+  const parentId = thread.nodes[id]?.parentId;
+  if (parentId === undefined) return [];
+  return parentId ? thread.nodes[parentId]?.childIds ?? [] : thread.rootIds;
+}
+
+/**
+ * Adds `message` under `parentId` (null for a new root) and makes it
+ * the selected branch at that fork.
+ */
+export function appendMessage(
+  thread: ChatThread,
+  message: Message,
+  parentId: string | null
+): ChatThread {
+  const node: MessageNode = { ...message, parentId, childIds: [] };
+  const nodes = { ...thread.nodes, [node.id]: node };
+
+  if (!parentId) {
+    return {
+      nodes,
+      rootIds: [...thread.rootIds, node.id],
+      activeRootId: node.id,
+    };
+  }
+
+  const parent = thread.nodes[parentId];
+  if (parent) {
+    nodes[parentId] = {
+      ...parent,
+      childIds: [...parent.childIds, node.id],
+      activeChildId: node.id,
+    };
+  }
+
+  return { ...thread, nodes };
+}
+
+export function updateNode(
+  thread: ChatThread,
+  id: string,
+  update: (node: MessageNode) => MessageNode
+): ChatThread {
+  const node = thread.nodes[id];
+  if (!node) return thread;
+
+  return { ...thread, nodes: { ...thread.nodes, [id]: update(node) } };
+}
+
+/**
+ * Makes `id` the selected branch at its fork.
+ */
+export function selectNode(thread: ChatThread, id: string): ChatThread {
+  const node = thread.nodes[id];
+  if (!node) return thread;
+
+  if (!node.parentId) return { ...thread, activeRootId: id };
+
+  return updateNode(thread, node.parentId, (parent) => ({
+    ...parent,
+    activeChildId: id,
+  }));
+}
+
+/**
+ * Restores the `Date`s that a JSON round trip turned into strings.
+ */
+export function reviveThread(thread: ChatThread): ChatThread {
+  const nodes: Record<string, MessageNode> = {};
+
+  for (const [id, node] of Object.entries(thread.nodes)) {
+    nodes[id] = {
+      ...node,
+      timestamp: new Date(node.timestamp),
+      ...(node.versions && {
+        versions: node.versions.map((v) => ({
+          ...v,
+          timestamp: new Date(v.timestamp),
+        })),
+      }),
+    };
+  }
+
+  return { ...thread, nodes };
+}
+
+/**
+ * Union of two copies of the same chat. Messages in both keep `local`'s
+ * content, and `local`'s branch selection wins.
+ */
+export function mergeThreads(local: ChatThread, other: ChatThread): ChatThread {
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+  const nodes = { ...local.nodes };
+
+  for (const node of Object.values(other.nodes)) {
+    const own = nodes[node.id];
+    nodes[node.id] = own
+      ? { ...own, childIds: union(own.childIds, node.childIds) }
+      : node;
+  }
+
+  return {
+    nodes,
+    rootIds: union(local.rootIds, other.rootIds),
+    activeRootId: local.activeRootId ?? other.activeRootId,
+  };
+}
+
+/**
+ * Builds a single-branch thread from a flat message list
+ * (the storage format before branching existed).
+ */
+export function threadFromMessages(messages: Message[]): ChatThread {
+  let thread = emptyThread();
+  let parentId: string | null = null;
+
+  for (const message of messages) {
+    thread = appendMessage(thread, message, parentId);
+    parentId = message.id;
+  }
+
+  return thread;
+}
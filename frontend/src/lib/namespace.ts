@@ -0,0 +1,80 @@
+/**
+ * namespace.ts
+ * ----------------
+ * Which account's data the persisted stores read and write.
+ *
+ * Responsibilities:
+ * - Hold the current namespace: the signed-in user's id, the guest
+ *   namespace (local-only data of people who haven't signed in), or null
+ *   for the data kept without an account (the un-suffixed keys from
+ *   before)
+ * - Map storage names to their namespaced form (`name:userId`), for
+ *   localStorage keys and IndexedDB database names alike
+ * - Pause localStorage writes while stores are reset during a switch, so
+ *   one account's state is never written under another's keys
+ *
+ * Switching is orchestrated by `lib/accounts`; this module has no store
+ * imports so the stores themselves can use it.
+ */
+import type { StateStorage } from "zustand/middleware";
+
+// Remembered across reloads so a restored session hydrates the right
+// account's stores from the start, instead of flashing another's
+const ACTIVE_KEY = "active-namespace";
+
+// Can't be a user id from any provider, so guests never share data
+// with an account
+export const GUEST_NAMESPACE = "@guest";
+
+let namespace: string | null = localStorage.getItem(ACTIVE_KEY);
+let writesPaused = false;
+
+export function getNamespace() {
+  return namespace;
+}
+
+export function setNamespace(id: string | null) {
+  namespace = id;
+  if (id) localStorage.setItem(ACTIVE_KEY, id);
+  else localStorage.removeItem(ACTIVE_KEY);
+}
+
+export function isGuestNamespace() {
+  return namespace === GUEST_NAMESPACE;
+}
+
+/**
+ * Namespaces whose data never leaves this browser: guest mode, and the
+ * data kept without an account (null).
+ */
+export type LocalNamespace = typeof GUEST_NAMESPACE | null;
+
+export function isLocalNamespace() {
+  return namespace === null || namespace === GUEST_NAMESPACE;
+}
+
+/** `name` in namespace `id` (by default the current one). */
+export function scopedName(name: string, id = namespace) {
+  return id ? `${name}:${id}` : name;
+}
+
+/**
+ * Runs `fn` with namespaced localStorage writes dropped.
+ */
+export function withWritesPaused(fn: () => void) {
+  writesPaused = true;
+  try {
+    fn();
+  } finally {
+    writesPaused = false;
+  }
+}
+
+/** localStorage under the current namespace, for `createJSONStorage`. */
+export const scopedLocalStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(scopedName(name)),
+  setItem: (name, value) => {
+    if (!writesPaused) localStorage.setItem(scopedName(name), value);
+  },
+  removeItem: (name) => localStorage.removeItem(scopedName(name)),
+};
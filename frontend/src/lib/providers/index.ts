@@ -0,0 +1,56 @@
+/**
+ * Provider registry.
+ *
+ * Maps provider ids to implementations, resolves the one that should
+ * answer the next request and aggregates their model lists.
+ */
+import { mockProvider } from "./mock";
+import { openAIProvider } from "./openai";
+import type { ChatProvider, ModelInfo } from "./types";
+
+export type {
+  ChatProvider,
+  ChatRequest,
+  GenerationParams,
+  ModelInfo,
+  ModelRef,
+} from "./types";
+export { DEFAULT_GENERATION_PARAMS } from "./types";
+
+const providers: Record<string, ChatProvider> = {
+  [mockProvider.id]: mockProvider,
+  [openAIProvider.id]: openAIProvider,
+};
+
+export function listProviders(): ChatProvider[] {
+  return Object.values(providers);
+}
+
+export function getProvider(id?: string): ChatProvider {
+  return (id && providers[id]) || mockProvider;
+}
+
+/**
+ * Models from every provider. Unreachable providers are reported in
+ * `errors` instead of failing the whole list.
+ */
+export async function listAllModels() {
+  const models: ModelInfo[] = [];
+  const errors: Record<string, string> = {};
+
+  const results = await Promise.allSettled(
+    listProviders().map((p) => p.listModels())
+  );
+
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      models.push(...result.value);
+    } else {
+      const reason = result.reason;
+      errors[listProviders()[i].id] =
+        reason instanceof Error ? reason.message : String(reason);
+    }
+  });
+
+  return { models, errors };
+}
@@ -0,0 +1,109 @@
+/**
+ * mock.ts
+ * ----------------
+ * Deterministic local provider used for development and tests.
+ *
+ * Responsibilities:
+ * - Produce a reply without any network access
+ * - Stream the reply word by word with a small delay, like a real model
+ * - Always return the same output for the same history
+ * - Honour `maxTokens` so parameter plumbing can be tested offline
+ * - Acknowledge attachments by name, so uploads can be tested offline
+ * - Advertise a couple of fake models for the model picker
+ */
+import type { Attachment } from "@/types/chat";
+import type { ChatProvider, ModelInfo } from "./types";
+
+const TOKEN_DELAY_MS = 30;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Builds the full mock reply for a prompt.
+ * Exported so tests and fixtures can predict the streamed output.
+ */
+export function buildMockReply(
+  prompt: string,
+  turn: number,
+  attachments: Attachment[] = []
+) {
+  const quoted = prompt.trim() || "(empty message)";
+
+  return [
+    `This is a mock response (turn ${turn}).`,
+    "",
+    "You wrote:",
+    "",
+    ...quoted.split("\n").map((line) => `> ${line}`),
+    "",
+    ...(attachments.length > 0
+      ? [
+          "Attachments received:",
+          "",
+          ...attachments.map(
+            (a) =>
+              `- ${a.name} (${a.mime}, ${a.size} bytes)` +
+              (a.extracted ? `, ${a.extracted.tokens} tokens of text` : "")
+          ),
+          "",
+        ]
+      : []),
+    "Configure a real model provider to get actual answers.",
+  ].join("\n");
+}
+
+export const MOCK_MODEL_ID = "mock-echo";
+
+const mockModels: ModelInfo[] = [
+  {
+    providerId: "mock",
+    modelId: MOCK_MODEL_ID,
+    label: "Mock Echo",
+    contextLength: 8192,
+    capabilities: { vision: false, tools: false },
+  },
+  {
+    providerId: "mock",
+    modelId: "mock-vision",
+    label: "Mock Vision",
+    contextLength: 32768,
+    capabilities: { vision: true, tools: true },
+  },
+];
+
+export const mockProvider: ChatProvider = {
+  id: "mock",
+  label: "Mock (offline)",
+
+  listModels: async () => mockModels,
+
+  async *streamChat({ messages, params, signal }) {
+    const userMessages = messages.filter((m) => m.role === "user");
+    const last = userMessages[userMessages.length - 1];
+    const reply = buildMockReply(
+      last?.content ?? "",
+      userMessages.length,
+      last?.attachments
+    );
+
+    // Split on whitespace but keep it, so joined tokens equal the reply
+    const tokens = reply.split(/(\s+)/).filter(Boolean);
+
+    for (const token of tokens.slice(0, params?.maxTokens)) {
+      signal?.throwIfAborted();
+      await sleep(TOKEN_DELAY_MS, signal);
+      yield token;
+    }
+  },
+};
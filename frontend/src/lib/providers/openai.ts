@@ -0,0 +1,215 @@
+/**
+ * openai.ts
+ * ----------------
+ * Adapter for OpenAI-compatible `/chat/completions` endpoints.
+ *
+ * Works with OpenAI itself and with local servers that mimic its API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ *
+ * Responsibilities:
+ * - Convert chat history into a chat-completions request body
+ * - Send the chat's system prompt and sampling parameters
+ * - Send attachments as multimodal content parts (images as data URLs,
+ *   extracted document text as labeled context blocks)
+ * - Stream the response as server-sent events
+ * - Turn `delta.content` chunks into tokens, stop on `[DONE]`
+ * - Surface HTTP errors (typed, see `api/errors`) and mid-stream error
+ *   frames as exceptions
+ * - List served models from `/models`, with context length when the
+ *   server reports it
+ */
+import type { Attachment, Message } from "@/types/chat";
+import { api } from "@/api/client";
+import {
+  attachmentToDataUrl,
+  formatBytes,
+  isImage,
+  loadAttachmentText,
+} from "@/lib/attachments";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { readSSE } from "./sse";
+import type { ChatProvider, GenerationParams, ModelInfo } from "./types";
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  error?: { message?: string } | string;
+
+  // vLLM reports errors as a top-level error object instead
+  object?: string;
+  message?: string;
+}
+
+interface ModelEntry {
+  id: string;
+
+  // Context length under the names different servers use
+  max_model_len?: number; // vLLM
+  context_length?: number; // OpenRouter, LM Studio
+  meta?: { n_ctx_train?: number }; // llama.cpp
+}
+
+// The models endpoint doesn't report capabilities, so guess from the name
+const VISION_MODEL = /vision|[-_.]vl\b|llava|pixtral|gpt-4o|gpt-4\.1|gpt-5|gemma3|minicpm-v/i;
+const TOOLS_MODEL = /gpt-|llama3\.[1-9]|qwen|mistral|command-r|hermes/i;
+
+function toModelInfo(entry: ModelEntry): ModelInfo {
+  return {
+    providerId: "openai",
+    modelId: entry.id,
+    label: entry.id,
+    contextLength:
+      entry.max_model_len ?? entry.context_length ?? entry.meta?.n_ctx_train,
+    capabilities: {
+      vision: VISION_MODEL.test(entry.id),
+      tools: TOOLS_MODEL.test(entry.id),
+    },
+  };
+}
+
+function baseUrl() {
+  const url = useSettingsStore.getState().openai.baseUrl.replace(/\/+$/, "");
+  // Absolute, so the shared client doesn't resolve it against our API
+  return url && new URL(url, window.location.href).href.replace(/\/+$/, "");
+}
+
+function authHeaders(): Record<string, string> {
+  const { apiKey } = useSettingsStore.getState().openai;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function errorMessage(error: CompletionChunk["error"], fallback: string) {
+  if (!error) return fallback;
+  return typeof error === "string" ? error : error.message || fallback;
+}
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+async function toContentPart(attachment: Attachment): Promise<ContentPart> {
+  if (isImage(attachment)) {
+    const url = await attachmentToDataUrl(attachment);
+    if (url) return { type: "image_url", image_url: { url } };
+  }
+
+  const text = await loadAttachmentText(attachment);
+  if (text !== undefined) {
+    return {
+      type: "text",
+      text: `<file name="${attachment.name}" type="${attachment.mime}">\n${text}\n</file>`,
+    };
+  }
+
+  // Files the model can't read directly are at least named
+  return {
+    type: "text",
+    text: `[Attached file: ${attachment.name} (${attachment.mime}, ${formatBytes(attachment.size)})]`,
+  };
+}
+
+/**
+ * Messages in chat-completions format. Messages with attachments use
+ * content-part arrays; plain messages keep a string for compatibility
+ * with servers that don't support parts.
+ */
+export async function toChatCompletionMessages(
+  messages: Message[],
+  systemPrompt = ""
+) {
+  const history = await Promise.all(
+    messages.map(async (m) => {
+      if (!m.attachments?.length) return { role: m.role, content: m.content };
+
+      const parts = await Promise.all(m.attachments.map(toContentPart));
+      return {
+        role: m.role,
+        content: [
+          ...(m.content ? [{ type: "text", text: m.content } as const] : []),
+          ...parts,
+        ],
+      };
+    })
+  );
+
+  return systemPrompt.trim()
+    ? [{ role: "system", content: systemPrompt }, ...history]
+    : history;
+}
+
+/**
+ * Sampling fields in chat-completions naming; unset values are omitted
+ * so the server applies its own defaults.
+ */
+function toSamplingFields(params?: GenerationParams) {
+  return {
+    temperature: params?.temperature,
+    top_p: params?.topP,
+    max_tokens: params?.maxTokens,
+    stop: params?.stop.length ? params.stop : undefined,
+  };
+}
+
+export const openAIProvider: ChatProvider = {
+  id: "openai",
+  label: "OpenAI-compatible",
+
+  async listModels() {
+    if (!baseUrl()) return [];
+
+    const { data } = await api.get<{ data?: ModelEntry[] }>(
+      `${baseUrl()}/models`,
+      // The mock adapter only serves our own API
+      { adapter: "fetch", headers: authHeaders() }
+    );
+    return (data.data ?? []).map(toModelInfo);
+  },
+
+  async *streamChat({ messages, model, params, signal }) {
+    if (!baseUrl()) {
+      throw new Error("No base URL configured for the OpenAI-compatible provider");
+    }
+
+    const res = await api.post<ReadableStream<Uint8Array>>(
+      `${baseUrl()}/chat/completions`,
+      {
+        model,
+        messages: await toChatCompletionMessages(
+          messages,
+          params?.systemPrompt
+        ),
+        ...toSamplingFields(params),
+        stream: true,
+      },
+      {
+        // Only the fetch adapter can hand over the body as a stream
+        adapter: "fetch",
+        responseType: "stream",
+        // Replies may stream for minutes
+        timeout: 0,
+        headers: { Accept: "text/event-stream", ...authHeaders() },
+        signal,
+      }
+    );
+
+    for await (const data of readSSE(res.data)) {
+      if (data === "[DONE]") return;
+
+      let chunk: CompletionChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue; // Ignore keep-alives and malformed frames
+      }
+
+      if (chunk.error) {
+        throw new Error(errorMessage(chunk.error, "Provider stream error"));
+      }
+      if (chunk.object === "error") {
+        throw new Error(chunk.message || "Provider stream error");
+      }
+
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) yield token;
+    }
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * sse.ts
+ * ----------------
+ * Minimal server-sent-events reader for streaming HTTP responses.
+ *
+ * Yields the `data` payload of every event. Multi-line `data:` fields are
+ * joined with "\n" as the SSE spec requires; comments (lines starting with
+ * ":") and other fields (`event`, `id`, `retry`) are ignored.
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+
+  let buffer = "";
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // Last entry is an incomplete line (or "") — keep it for the next chunk
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line === "") {
+          // Blank line dispatches the event
+          if (data.length > 0) yield data.join("\n");
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+    }
+
+    // Some servers close the stream without a trailing blank line
+    buffer += decoder.decode();
+    if (buffer.startsWith("data:")) data.push(buffer.slice(5).replace(/^ /, ""));
+    if (data.length > 0) yield data.join("\n");
+  } finally {
+    reader.releaseLock();
+  }
+}
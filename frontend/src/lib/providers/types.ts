@@ -0,0 +1,79 @@
+/**
+ * types.ts
+ * ----------------
+ * Shared contract for every LLM provider the chat UI can talk to.
+ *
+ * A provider receives the conversation history and yields the assistant
+ * reply as an async stream of text tokens. It also lists the models it
+ * can serve, so the UI can offer a model picker. Everything above this layer
+ * (stores, components) only depends on these types, so providers can be
+ * swapped without touching the UI.
+ */
+import type { Message } from "@/types/chat";
+
+/**
+ * Identifies a model across providers. Stored on chats and settings.
+ */
+export interface ModelRef {
+  providerId: string;
+  modelId: string;
+}
+
+export interface ModelInfo extends ModelRef {
+  label: string;
+
+  // Maximum tokens (prompt + completion); undefined when the server doesn't say
+  contextLength?: number;
+
+  capabilities: {
+    vision: boolean;
+    tools: boolean;
+  };
+}
+
+/**
+ * Per-chat generation settings. Unset numbers mean "provider default".
+ */
+export interface GenerationParams {
+  systemPrompt: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop: string[];
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  systemPrompt: "",
+  stop: [],
+};
+
+export interface ChatRequest {
+  // Conversation history, oldest first, ending with the latest user message
+  messages: Message[];
+
+  // Model identifier understood by the provider
+  model: string;
+
+  // System prompt and sampling settings of the chat
+  params?: GenerationParams;
+
+  // Aborts the request; providers must stop yielding once it fires
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  id: string;
+  label: string;
+
+  /**
+   * Streams the assistant reply for `request`.
+   * Each yielded string is a token (or chunk) to append to the reply.
+   */
+  streamChat: (request: ChatRequest) => AsyncIterable<string>;
+
+  /**
+   * Models this provider can serve right now.
+   * Rejects when the provider is unreachable.
+   */
+  listModels: () => Promise<ModelInfo[]>;
+}
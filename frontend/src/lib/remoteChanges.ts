@@ -0,0 +1,18 @@
+/**
+ * Marks store updates that came from elsewhere (the sync server, another
+ * tab), so store observers apply them without echoing them back.
+ */
+let depth = 0;
+
+export function applyRemote(apply: () => void) {
+  depth++;
+  try {
+    apply();
+  } finally {
+    depth--;
+  }
+}
+
+export function isApplyingRemote() {
+  return depth > 0;
+}
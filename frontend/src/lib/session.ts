@@ -0,0 +1,75 @@
+/**
+ * session.ts
+ * ----------------
+ * Reads sessions out of sign-in tokens.
+ *
+ * Responsibilities:
+ * - Decode an ID token (JWT) into the signed-in user and its expiry
+ * - Reject tokens that are malformed or (nearly) expired
+ * - Keep the current token in localStorage so a reload can restore it
+ *
+ * Only the claims are read; the signature is the backend's to verify.
+ */
+import { jwtDecode } from "jwt-decode";
+import type { User } from "@/store/useAuthStore";
+
+const TOKEN_KEY = "auth_token";
+
+// Tokens this close to expiry are treated as expired already
+const CLOCK_SKEW_MS = 30_000;
+
+interface IdTokenClaims {
+  sub?: string;
+  name?: string;
+  email?: string;
+  picture?: string;
+  exp?: number; // epoch seconds
+}
+
+export interface Session {
+  user: User;
+  token: string;
+  expiresAt: number; // epoch ms
+}
+
+export function decodeSession(token: string): Session | null {
+  let claims: IdTokenClaims;
+  try {
+    claims = jwtDecode<IdTokenClaims>(token);
+  } catch {
+    return null;
+  }
+
+  if (!claims.sub || !claims.exp) return null;
+  const expiresAt = claims.exp * 1000;
+  if (expiresAt <= Date.now() + CLOCK_SKEW_MS) return null;
+
+  return {
+    token,
+    expiresAt,
+    user: {
+      id: claims.sub,
+      name: claims.name ?? claims.email ?? "User",
+      email: claims.email ?? "",
+      picture: claims.picture,
+    },
+  };
+}
+
+/**
+ * The session saved by the last sign-in, if its token is still valid.
+ * Invalid tokens are removed.
+ */
+export function readStoredSession(): Session | null {
+  const token = localStorage.getItem(TOKEN_KEY);
+  if (!token) return null;
+
+  const session = decodeSession(token);
+  if (!session) localStorage.removeItem(TOKEN_KEY);
+  return session;
+}
+
+export function storeToken(token: string | null) {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+}
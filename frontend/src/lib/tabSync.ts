@@ -0,0 +1,168 @@
+/**
+ * tabSync.ts
+ * ----------------
+ * Keeps the chat stores of all open tabs consistent.
+ *
+ * Responsibilities:
+ * - Broadcast local changes per entity: chats added, changed or deleted,
+ *   and messages added, changed or removed within a chat
+ * - Merge other tabs' changes into this tab's stores entity by entity,
+ *   so no tab's persisted copy overwrites another's with a stale blob
+ * - Tell other tabs which chat this tab is streaming into
+ * - Ignore tabs that have another account's data loaded
+ *
+ * Architecture Role:
+ * - Works on the stores only, over a BroadcastChannel; persistence then
+ *   writes the merged state as usual.
+ * - Changes applied here are marked remote (`lib/remoteChanges`), so they
+ *   are neither re-broadcast nor pushed to the sync server a second time.
+ * - The exclusive right to stream into a chat is a Web Lock taken in
+ *   `lib/generate`; the streaming notices here only drive the UI.
+ */
+import { useChatListStore, type ChatSession } from "@/store/useChatListStore";
+import { useChatStore, type ThreadChanges } from "@/store/useChatStore";
+import { useUIStore } from "@/store/useUIStore";
+import { getNamespace } from "./namespace";
+import { applyRemote, isApplyingRemote } from "./remoteChanges";
+
+type TabMessage =
+  | { type: "chats"; upserts: ChatSession[]; removedIds: string[] }
+  | { type: "thread"; chatId: string; changes: ThreadChanges }
+  | { type: "streaming"; chatId: string; active: boolean }
+  // Sent by a new tab so the others re-announce what they stream
+  | { type: "hello" };
+
+// Tabs may have different accounts loaded; each only hears its own
+type TabEnvelope = TabMessage & { namespace: string | null };
+
+const CHANNEL_NAME = "chat-tabs";
+
+function handleMessage(message: TabMessage, post: (m: TabMessage) => void) {
+  switch (message.type) {
+    case "chats":
+      applyRemote(() => {
+        const list = useChatListStore.getState();
+        if (message.upserts.length > 0) list.upsertChats(message.upserts);
+
+        for (const id of message.removedIds) {
+          list.deleteChat(id);
+          useChatStore.getState().clearChat(id);
+        }
+      });
+      return;
+
+    case "thread":
+      // Unloaded chats pick the change up from IndexedDB when opened
+      applyRemote(() =>
+        useChatStore
+          .getState()
+          .mergeThreadChanges(message.chatId, message.changes)
+      );
+      return;
+
+    case "streaming":
+      useUIStore.getState().setRemoteStreaming(message.chatId, message.active);
+      return;
+
+    case "hello": {
+      const { streamingChatId } = useUIStore.getState();
+      if (streamingChatId) {
+        post({ type: "streaming", chatId: streamingChatId, active: true });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Starts exchanging changes with other tabs. Returns a function that
+ * stops it.
+ */
+export function startTabSync() {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: TabMessage) =>
+    channel.postMessage({
+      ...message,
+      namespace: getNamespace(),
+    } satisfies TabEnvelope);
+
+  channel.onmessage = (event: MessageEvent<TabEnvelope>) => {
+    if (event.data.namespace !== getNamespace()) return;
+    handleMessage(event.data, post);
+  };
+
+  const unsubscribeChats = useChatListStore.subscribe((state, prev) => {
+    if (isApplyingRemote() || state.chats === prev.chats) return;
+
+    const before = new Map(prev.chats.map((c) => [c.id, c]));
+    const upserts = state.chats.filter((c) => c !== before.get(c.id));
+    const ids = new Set(state.chats.map((c) => c.id));
+    const removedIds = prev.chats.map((c) => c.id).filter((id) => !ids.has(id));
+
+    if (upserts.length > 0 || removedIds.length > 0) {
+      post({ type: "chats", upserts, removedIds });
+    }
+  });
+
+  const unsubscribeThreads = useChatStore.subscribe((state, prev) => {
+    if (
+      isApplyingRemote() ||
+      state.messagesByChatId === prev.messagesByChatId ||
+      !useChatStore.persist.hasHydrated()
+    ) {
+      return;
+    }
+
+    for (const [chatId, thread] of Object.entries(state.messagesByChatId)) {
+      const old = prev.messagesByChatId[chatId];
+      // Chats appearing in memory were loaded, not changed
+      if (thread === old || !old) continue;
+
+      const nodes = Object.values(thread.nodes).filter(
+        (node) => node !== old.nodes[node.id]
+      );
+      const removedIds = Object.keys(old.nodes).filter(
+        (id) => !thread.nodes[id]
+      );
+      if (nodes.length === 0 && removedIds.length === 0) continue;
+
+      post({
+        type: "thread",
+        chatId,
+        changes: { nodes, removedIds, rootIds: thread.rootIds },
+      });
+    }
+  });
+
+  const unsubscribeStreaming = useUIStore.subscribe((state, prev) => {
+    if (state.streamingChatId === prev.streamingChatId) return;
+
+    if (prev.streamingChatId) {
+      post({ type: "streaming", chatId: prev.streamingChatId, active: false });
+    }
+    if (state.streamingChatId) {
+      post({ type: "streaming", chatId: state.streamingChatId, active: true });
+    }
+  });
+
+  // A closing tab releases its lock; make sure the others hear about it
+  const handlePageHide = () => {
+    const { streamingChatId } = useUIStore.getState();
+    if (streamingChatId) {
+      post({ type: "streaming", chatId: streamingChatId, active: false });
+    }
+  };
+  window.addEventListener("pagehide", handlePageHide);
+
+  post({ type: "hello" });
+
+  return () => {
+    unsubscribeChats();
+    unsubscribeThreads();
+    unsubscribeStreaming();
+    window.removeEventListener("pagehide", handlePageHide);
+    channel.close();
+  };
+}
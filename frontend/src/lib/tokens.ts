@@ -0,0 +1,44 @@
+/**
+ * tokens.ts
+ * ----------------
+ * Rough token accounting for prompt budgeting.
+ *
+ * Real tokenizers differ per model; ~4 characters per token is the usual
+ * estimate for English text and code and is good enough to keep prompts
+ * inside the context window.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+// Used when the provider doesn't report a context length
+export const FALLBACK_CONTEXT_LENGTH = 8192;
+
+// Share of the context window that attached documents may use
+const ATTACHMENT_BUDGET_SHARE = 0.5;
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function attachmentTokenBudget(contextLength?: number) {
+  return Math.floor(
+    (contextLength || FALLBACK_CONTEXT_LENGTH) * ATTACHMENT_BUDGET_SHARE
+  );
+}
+
+/**
+ * Cuts `text` down to roughly `maxTokens`, marking where it was cut.
+ */
+export function truncateToTokens(text: string, maxTokens: number) {
+  if (estimateTokens(text) <= maxTokens) {
+    return { text, truncated: false };
+  }
+
+  const kept = text.slice(0, Math.max(0, maxTokens) * CHARS_PER_TOKEN);
+  const dropped = estimateTokens(text) - estimateTokens(kept);
+
+  return {
+    text: `${kept}\n[… truncated ${dropped} tokens to fit the context window]`,
+    truncated: true,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * trash.ts
+ * ----------------
+ * Soft deletion of chats.
+ *
+ * Responsibilities:
+ * - Move chats to the trash (`ChatSession.deletedAt`) with an undo toast
+ * - Restore chats from the trash, or delete them for good
+ * - Purge chats that stayed in the trash longer than
+ *   `trashRetentionDays`, now and periodically
+ *
+ * Trashed chats keep their messages and attachments; only "delete
+ * forever" and purging remove them from storage and the server.
+ */
+import { useChatListStore } from "@/store/useChatListStore";
+import { useChatStore } from "@/store/useChatStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { useUIStore } from "@/store/useUIStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function offerUndo(ids: string[], message: string) {
+  useUIStore.getState().showToast({
+    message,
+    action: { label: "Undo", onAction: () => restoreFromTrash(ids) },
+  });
+}
+
+export function moveToTrash(ids: string[]) {
+  if (ids.length === 0) return;
+
+  for (const id of ids) useUIStore.getState().stopStreaming(id);
+  // New messages must not land in a trashed chat
+  useChatStore.getState().closeChats(ids);
+  useChatListStore.getState().trashChats(ids);
+  offerUndo(
+    ids,
+    ids.length === 1
+      ? "Chat moved to trash"
+      : `${ids.length} chats moved to trash`
+  );
+}
+
+/** Moves every chat to the trash (`clearAll`), with one undo for all. */
+export function moveAllToTrash() {
+  const ids = useChatListStore
+    .getState()
+    .chats.filter((c) => !c.deletedAt)
+    .map((c) => c.id);
+  if (ids.length === 0) return;
+
+  useUIStore.getState().stopStreaming();
+  useChatStore.getState().closeChats(ids);
+  useChatListStore.getState().clearAll();
+  offerUndo(ids, `${ids.length} chats moved to trash`);
+}
+
+export function restoreFromTrash(ids: string[]) {
+  useChatListStore.getState().restoreChats(ids);
+}
+
+export function deleteForever(ids: string[]) {
+  for (const id of ids) {
+    useChatListStore.getState().deleteChat(id);
+    useChatStore.getState().clearChat(id);
+  }
+}
+
+/**
+ * When a chat trashed at `deletedAt` gets purged (epoch ms).
+ */
+export function purgeDate(
+  deletedAt: number,
+  retentionDays = useSettingsStore.getState().trashRetentionDays
+) {
+  return deletedAt + retentionDays * DAY_MS;
+}
+
+export function purgeExpiredTrash(now = Date.now()) {
+  const expired = useChatListStore
+    .getState()
+    .chats.filter((c) => c.deletedAt && purgeDate(c.deletedAt) < now)
+    .map((c) => c.id);
+
+  if (expired.length > 0) deleteForever(expired);
+}
+
+/**
+ * Purges expired chats now, every hour and whenever another account's
+ * chats are loaded. Returns a function that stops it.
+ */
+export function startTrashPurge() {
+  purgeExpiredTrash();
+
+  const interval = setInterval(() => purgeExpiredTrash(), PURGE_INTERVAL_MS);
+  // Settings hydrate after the chat list (see `lib/accounts`), so the
+  // new account's retention applies
+  const unsubscribe = useSettingsStore.persist.onFinishHydration(() =>
+    purgeExpiredTrash()
+  );
+
+  return () => {
+    clearInterval(interval);
+    unsubscribe();
+  };
+}
@@ -2,14 +2,25 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
-import { GoogleOAuthProvider } from "@react-oauth/google";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
+import { queryClient } from "./api/queryClient";
+import { startChatSync } from "./api/sync";
+import { startTabSync } from "./lib/tabSync";
+import { startTrashPurge } from "./lib/trash";
+import { startSession } from "./store/useAuthStore";
 
+startSession();
+startChatSync();
+startTabSync();
+startTrashPurge();
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
-    <GoogleOAuthProvider clientId={import.meta.env.VITE_GOOGLE_CLIENT_ID}>
+    <QueryClientProvider client={queryClient}>
       <App />
-    </GoogleOAuthProvider>
+      {import.meta.env.DEV && <ReactQueryDevtools buttonPosition="bottom-left" />}
+    </QueryClientProvider>
   </React.StrictMode>
 );
 
@@ -0,0 +1,57 @@
+/**
+ * AuthCallbackPage.tsx
+ * ----------------
+ * Where the OIDC provider sends the browser after login.
+ *
+ * Trades the authorization code for an ID token, signs in with it and
+ * returns to the page the sign-in started from.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+
+import { completeOidcSignIn } from "@/lib/auth";
+import { decodeSession } from "@/lib/session";
+import { useAuthStore } from "@/store/useAuthStore";
+
+export function AuthCallbackPage() {
+  const { search } = useLocation();
+  const navigate = useNavigate();
+  const setAuth = useAuthStore((s) => s.setAuth);
+  const [error, setError] = useState<string | null>(null);
+
+  // The code can only be redeemed once (StrictMode runs effects twice)
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    completeOidcSignIn(search)
+      .then(({ token, returnTo }) => {
+        const session = decodeSession(token);
+        if (!session) throw new Error("The ID token is invalid or expired");
+
+        setAuth(session.user, session.token);
+        navigate(returnTo, { replace: true });
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, [search, navigate, setAuth]);
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-3 bg-background px-4 text-sm">
+      {error ? (
+        <>
+          <p className="text-red-500">Sign-in failed: {error}</p>
+          <Link to="/login" replace className="underline">
+            Try again
+          </Link>
+        </>
+      ) : (
+        <p className="text-muted-foreground">Signing you in…</p>
+      )}
+    </div>
+  );
+}
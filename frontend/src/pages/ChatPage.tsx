@@ -1,31 +1,62 @@
 import { ChatWindow } from "@/components/chat/ChatWindow";
 import { ChatInput } from "@/components/chat/ChatInput";
-import { useParams } from "react-router-dom";
+import { Navigate, useParams } from "react-router-dom";
 import { useEffect } from "react";
 import { useChatStore } from "@/store/useChatStore";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useActiveMessages } from "@/hooks/use-active-messages";
+import { useMessageSync } from "@/hooks/use-chat-sync";
+import { ChatSkeleton } from "@/components/chat/ChatSkeleton";
 
 export function ChatPage() {
   const { chatId } = useParams<{ chatId: string }>();
-  const { activeChatId, messagesByChatId } = useChatStore();
-
-  const messages = activeChatId
-    ? messagesByChatId[activeChatId] || []
-    : [];
+  const messages = useActiveMessages();
   const isEmpty = messages.length === 0;
 
   const setActiveChat = useChatStore((s) => s.setActiveChat);
+  const closeChats = useChatStore((s) => s.closeChats);
+  const activeChatId = useChatStore((s) => s.activeChatId);
+  // Trashed chats only open from the trash (as restored chats)
+  const isTrashed = useChatListStore((s) =>
+    s.chats.some((c) => c.id === chatId && c.deletedAt)
+  );
+  const isActiveTrashed = useChatListStore((s) =>
+    s.chats.some((c) => c.id === activeChatId && c.deletedAt)
+  );
+  const isLoadingHistory = useChatStore(
+    (s) => !!chatId && s.loadingChatId === chatId
+  );
+  const { isLoading: isSyncing } = useMessageSync(chatId ?? null);
+  const isLoading = isLoadingHistory || (isEmpty && isSyncing);
 
   useEffect(() => {
-    if (chatId) {
+    if (chatId && !isTrashed) {
       console.log("Loading chat:", chatId);
       setActiveChat(chatId);
     }
-  }, [chatId, setActiveChat]);
+  }, [chatId, isTrashed, setActiveChat]);
+
+  // Trashed elsewhere (another tab, the server) while open
+  useEffect(() => {
+    if (activeChatId && isActiveTrashed) closeChats([activeChatId]);
+  }, [activeChatId, isActiveTrashed, closeChats]);
+
+  if (isTrashed) {
+    return <Navigate to="/" replace />;
+  }
 
 
   return (
     <div className="flex h-full w-full flex-col bg-background">
-      {isEmpty ? (
+      {isLoading ? (
+        /* ---------- LOADING ---------- */
+        <>
+          <ChatSkeleton />
+          <div className="w-full bg-background/80 backdrop-blur-md py-4 md:py-6">
+            <ChatInput />
+          </div>
+        </>
+      ) : isEmpty ? (
         /* ---------- EMPTY STATE ---------- */
         <div className="flex flex-1 flex-col items-center justify-center">
           <div className="mb-8 text-center">
@@ -1,11 +1,28 @@
-import { GoogleLogin } from "@react-oauth/google";
+import {
+  Navigate,
+  useLocation,
+  useNavigate,
+  type Location,
+} from "react-router-dom";
+import { SignIn } from "@/components/auth/SignIn";
+import { Button } from "@/components/ui/button";
+import { authConfigError, authProvider } from "@/lib/auth";
+import { decodeSession } from "@/lib/session";
 import { useAuthStore } from "@/store/useAuthStore";
-import { useNavigate } from "react-router-dom";
-import { jwtDecode } from "jwt-decode";
 
 export function LoginPage() {
+  const token = useAuthStore((s) => s.token);
   const setAuth = useAuthStore((s) => s.setAuth);
+  const continueAsGuest = useAuthStore((s) => s.continueAsGuest);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Set by ProtectedRoute when it redirected here
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? from.pathname + from.search + from.hash : "/";
+
+  if (token) {
+    return <Navigate to={returnTo} replace />;
+  }
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-background px-4">
@@ -20,38 +37,48 @@ export function LoginPage() {
           </p>
         </div>
 
+        {authConfigError && (
+          <p
+            role="alert"
+            className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-600 dark:border-red-900/50 dark:bg-red-950/30 dark:text-red-400"
+          >
+            Sign-in isn't available: {authConfigError}
+          </p>
+        )}
+
         <div className="flex justify-center">
-          <GoogleLogin
-            key={Date.now()}
-            onSuccess={(credentialResponse) => {
-                const token = credentialResponse.credential;
-                if (!token) return;
-
-                const decoded: any = jwtDecode(token);
-
-                setAuth(
-                {
-                    id: decoded.sub,
-                    name: decoded.name,
-                    email: decoded.email,
-                    picture: decoded.picture,
-                },
-                token
-                );
-
-                navigate("/");
-            }}
-            onError={() => {
-                console.error("Google Login Failed");
+          <SignIn
+            returnTo={returnTo}
+            onToken={(token) => {
+              const session = decodeSession(token);
+              if (!session) return;
+
+              setAuth(session.user, session.token);
+              navigate(returnTo, { replace: true });
             }}
-            useOneTap={false}
-            auto_select={false}
-            />
+          />
         </div>
 
-        <p className="mt-6 text-center text-xs text-muted-foreground">
-          Secure OAuth login • No passwords stored
-        </p>
+        {authProvider && (
+          <p className="mt-6 text-center text-xs text-muted-foreground">
+            {authProvider.description}
+          </p>
+        )}
+
+        <div className="mt-6 border-t pt-4 text-center">
+          <Button
+            variant="ghost"
+            onClick={() => {
+              continueAsGuest();
+              navigate(returnTo, { replace: true });
+            }}
+          >
+            Continue as guest
+          </Button>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Chats stay in this browser until you sign in.
+          </p>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,149 @@
+import { Link } from "react-router-dom";
+import { LogOut } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { AppearanceSettingsForm } from "@/components/settings/AppearanceSettings";
+import { AttachmentSettingsForm } from "@/components/settings/AttachmentSettings";
+import { BackupSettingsForm } from "@/components/settings/BackupSettings";
+import { DataSettingsForm } from "@/components/settings/DataSettings";
+import { PromptTemplateSettingsForm } from "@/components/settings/PromptTemplateSettings";
+import { ProviderSettingsForm } from "@/components/settings/ProviderSettings";
+import { ShortcutSettingsForm } from "@/components/settings/ShortcutSettings";
+import { TrashSettingsForm } from "@/components/settings/TrashSettings";
+import { authProvider } from "@/lib/auth";
+import { useAuthStore } from "@/store/useAuthStore";
+
+const SECTIONS = [
+  { id: "profile", label: "Profile" },
+  { id: "appearance", label: "Appearance" },
+  { id: "models", label: "Models & providers" },
+  { id: "templates", label: "Prompt templates" },
+  { id: "data", label: "Data controls" },
+  { id: "shortcuts", label: "Keyboard shortcuts" },
+];
+
+function Section({
+  id,
+  title,
+  children,
+}: {
+  id: string;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section
+      id={id}
+      className="flex scroll-mt-6 flex-col gap-4 rounded-lg border p-5 dark:border-zinc-800"
+    >
+      <h2 className="text-lg font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function ProfileSection() {
+  const user = useAuthStore((s) => s.user);
+  const logout = useAuthStore((s) => s.logout);
+
+  if (!user) {
+    return (
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <p className="text-zinc-500">
+          You're using guest mode. Chats are stored only in this browser.
+        </p>
+        <Button asChild>
+          <Link to="/login">Sign in</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="flex h-14 w-14 shrink-0 items-center justify-center overflow-hidden rounded-full bg-indigo-500 text-lg font-bold text-white">
+        {user.picture ? (
+          <img
+            src={user.picture}
+            alt={user.name}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          user.name[0]
+        )}
+      </div>
+
+      <div className="min-w-0 flex-1">
+        <div className="truncate font-medium">{user.name}</div>
+        <div className="truncate text-sm text-zinc-500">{user.email}</div>
+        {authProvider && (
+          <div className="text-xs text-zinc-400">
+            Signed in with {authProvider.name}
+          </div>
+        )}
+      </div>
+
+      <Button variant="outline" onClick={logout}>
+        <LogOut /> Log out
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Account and app settings on one page, one section per topic. Every
+ * form saves as you type and applies immediately.
+ */
+export function SettingsPage() {
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="mx-auto flex w-full max-w-4xl gap-8 px-4 py-6">
+        <nav className="sticky top-0 hidden w-44 shrink-0 flex-col gap-1 self-start text-sm md:flex">
+          {SECTIONS.map(({ id, label }) => (
+            <a
+              key={id}
+              href={`#${id}`}
+              className="rounded-md px-3 py-1.5 text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+            >
+              {label}
+            </a>
+          ))}
+        </nav>
+
+        <div className="flex min-w-0 flex-1 flex-col gap-6">
+          <h1 className="text-2xl font-semibold">Settings</h1>
+
+          <Section id="profile" title="Profile">
+            <ProfileSection />
+          </Section>
+
+          <Section id="appearance" title="Appearance">
+            <AppearanceSettingsForm />
+          </Section>
+
+          <Section id="models" title="Models & providers">
+            <ProviderSettingsForm />
+            <h3 className="text-sm font-semibold">Attachments</h3>
+            <AttachmentSettingsForm />
+          </Section>
+
+          <Section id="templates" title="Prompt templates">
+            <PromptTemplateSettingsForm />
+          </Section>
+
+          <Section id="data" title="Data controls">
+            <h3 className="text-sm font-semibold">Export everything</h3>
+            <BackupSettingsForm />
+            <h3 className="text-sm font-semibold">Chats</h3>
+            <DataSettingsForm />
+            <TrashSettingsForm />
+          </Section>
+
+          <Section id="shortcuts" title="Keyboard shortcuts">
+            <ShortcutSettingsForm />
+          </Section>
+        </div>
+      </div>
+    </div>
+  );
+}
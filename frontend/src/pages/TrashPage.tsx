@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useChatListStore } from "@/store/useChatListStore";
+import { useSettingsStore } from "@/store/useSettingsStore";
+import { deleteForever, purgeDate, restoreFromTrash } from "@/lib/trash";
+
+/**
+ * Chats moved to the trash, newest first. Each can be restored or
+ * deleted for good; whatever is left is purged after the retention
+ * period set in Settings.
+ */
+export function TrashPage() {
+  const chats = useChatListStore((s) => s.chats);
+  const retentionDays = useSettingsStore((s) => s.trashRetentionDays);
+
+  const trashed = useMemo(
+    () =>
+      chats
+        .filter((c) => c.deletedAt)
+        .sort((a, b) => b.deletedAt! - a.deletedAt!),
+    [chats]
+  );
+
+  const handleEmpty = () => {
+    const count = trashed.length;
+    if (confirm(`Delete ${count} chats forever? This cannot be undone.`)) {
+      deleteForever(trashed.map((c) => c.id));
+    }
+  };
+
+  return (
+    <div className="mx-auto flex h-full w-full max-w-3xl flex-col gap-4 overflow-y-auto px-4 py-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Trash</h1>
+          <p className="text-sm text-zinc-500">
+            Chats are deleted for good after {retentionDays} days.
+          </p>
+        </div>
+
+        {trashed.length > 0 && (
+          <Button variant="destructive" size="sm" onClick={handleEmpty}>
+            Empty trash
+          </Button>
+        )}
+      </div>
+
+      {trashed.length === 0 ? (
+        <p className="py-16 text-center text-sm text-zinc-500">
+          The trash is empty.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-lg border dark:divide-zinc-800 dark:border-zinc-800">
+          {trashed.map((chat) => (
+            <li key={chat.id} className="flex items-center gap-3 px-4 py-3">
+              <div className="min-w-0 flex-1">
+                <div className="truncate font-medium">{chat.title}</div>
+                <div className="text-xs text-zinc-500">
+                  Deleted {new Date(chat.deletedAt!).toLocaleDateString()} ·{" "}
+                  removed for good on{" "}
+                  {new Date(
+                    purgeDate(chat.deletedAt!, retentionDays)
+                  ).toLocaleDateString()}
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreFromTrash([chat.id])}
+              >
+                <RotateCcw /> Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-500 hover:text-red-600"
+                onClick={() => {
+                  if (confirm(`Delete "${chat.title}" forever?`)) {
+                    deleteForever([chat.id]);
+                  }
+                }}
+              >
+                <Trash2 /> Delete forever
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
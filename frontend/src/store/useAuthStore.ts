@@ -6,20 +6,32 @@
  * Responsibilities:
  * - Manage user authentication session
  * - Store user profile info
- * - Handle login/logout flows
- * - Clear application state on logout
+ * - Handle login/logout flows (the same for every provider in `lib/auth`)
+ * - Let people use the app as a guest, with local-only data, and offer
+ *   to move it, and chats from before accounts, into their account when
+ *   they sign in (see `lib/localChats`)
+ * - Restore the session from the stored token on boot
+ * - Renew the token before it expires (and on demand, see
+ *   `refreshSession`), warn when that fails, and end the session once
+ *   it has expired (see `startSession`)
+ * - Load the signed-in account's data after login (see `lib/accounts`)
  *
  * Security:
- * - Clears all local data on logout
+ * - Persisted data is namespaced by user id, so nothing from one
+ *   account shows up in another's sidebar or search
+ * - Unloads the account's data on logout (it stays stored for them)
  * - Removes auth tokens
- * - Resets Zustand stores
  */
 
 import { create } from "zustand";
-import { useChatStore } from "./useChatStore";
-import { useChatListStore } from "./useChatListStore";
+import { switchAccount } from "@/lib/accounts";
+import { authProvider } from "@/lib/auth";
+import { nextLocalChats } from "@/lib/localChats";
+import { getNamespace, GUEST_NAMESPACE } from "@/lib/namespace";
+import { decodeSession, readStoredSession, storeToken } from "@/lib/session";
+import { useUIStore } from "@/store/useUIStore";
 
-interface User {
+export interface User {
   id: string;
   name: string;
   email: string;
@@ -29,33 +41,173 @@ interface User {
 interface AuthState {
   user: User | null;
   token: string | null;
+  // When the token stops being accepted (epoch ms); null if unknown
+  expiresAt: number | null;
+  // Using the app without an account, in the guest namespace
+  isGuest: boolean;
 
   setAuth: (user: User, token: string) => void;
+  continueAsGuest: () => void;
+  // Ends an expired session; unlike `logout`, the page stays put and
+  // the next protected route sends the user to login
+  expireSession: () => void;
   logout: () => void;
 }
 
+const restored = readStoredSession();
+
 export const useAuthStore = create<AuthState>((set) => ({
-  user: null,
-  token: null,
+  user: restored?.user ?? null,
+  token: restored?.token ?? null,
+  expiresAt: restored?.expiresAt ?? null,
+  // Guest mode lasts until sign-in, across reloads
+  isGuest: !restored && getNamespace() === GUEST_NAMESPACE,
 
   setAuth: (user, token) => {
-    localStorage.setItem("auth_token", token);
-    set({ user, token });
+    const isSignIn = getNamespace() !== user.id;
+
+    storeToken(token);
+    set({
+      user,
+      token,
+      expiresAt: decodeSession(token)?.expiresAt ?? null,
+      isGuest: false,
+    });
+
+    void switchAccount(user.id).then(() => {
+      const source = isSignIn ? nextLocalChats() : undefined;
+      if (source !== undefined) {
+        useUIStore.getState().setLocalChatsSource(source);
+      }
+    });
+  },
+
+  continueAsGuest: () => {
+    set({ isGuest: true });
+    void switchAccount(GUEST_NAMESPACE);
+  },
+
+  expireSession: () => {
+    storeToken(null);
+    set({ user: null, token: null, expiresAt: null, isGuest: false });
+    void switchAccount(null);
   },
 
   logout: () => {
   // Clear tokens
-  localStorage.removeItem("auth_token");
-
-  // Reset all app state
-  useChatStore.getState().clearAllChats();
-  useChatListStore.getState().clearAll?.();
+  storeToken(null);
+  authProvider?.signOut();
 
   // Reset auth state
-  set({ user: null, token: null });
+  set({ user: null, token: null, expiresAt: null, isGuest: false });
 
-  // Redirect to login
-  window.location.href = "/login";
+  // Unload the account (cancelling any in-flight reply), then redirect
+  // to login once its pending writes are saved
+  void switchAccount(null).finally(() => {
+    window.location.href = "/login";
+  });
     },
 
 }));
+
+// Renewal starts this long before expiry; if it fails, the warning
+// stays up until then
+const RENEW_BEFORE_MS = 5 * 60_000;
+
+// Longest delay setTimeout supports (~24 days)
+const MAX_DELAY_MS = 2 ** 31 - 1;
+
+let refreshing: Promise<string | null> | null = null;
+
+/**
+ * Signs the current user in again without any UI (see
+ * `AuthProvider.silentReauth`). Resolves with the new token, or null
+ * when the user has to sign in themselves. Concurrent calls share one
+ * attempt.
+ */
+export function refreshSession(): Promise<string | null> {
+  if (!authProvider) return Promise.resolve(null);
+
+  refreshing ??= authProvider
+    .silentReauth()
+    .catch(() => null)
+    .then((token) => {
+      const session = token ? decodeSession(token) : null;
+      if (!session) return null;
+      useAuthStore.getState().setAuth(session.user, session.token);
+      return session.token;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+/**
+ * Gets a new token before the session ends, or warns that it is about
+ * to.
+ */
+async function renewSession() {
+  if (await refreshSession()) return;
+
+  const { expiresAt, expireSession } = useAuthStore.getState();
+  if (!expiresAt) return;
+
+  const time = new Date(expiresAt).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  useUIStore.getState().showToast({
+    message: `Your session ends at ${time}. Sign in again to keep working.`,
+    action: { label: "Sign in", onAction: expireSession },
+    durationMs: Math.max(0, expiresAt - Date.now()),
+  });
+}
+
+/**
+ * Loads the restored session's account and keeps the session's renewal
+ * and expiry scheduled. Call once at startup.
+ */
+export function startSession() {
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const schedule = (expiresAt: number | null) => {
+    timers.forEach(clearTimeout);
+    timers = [];
+    if (!expiresAt) return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining - RENEW_BEFORE_MS > MAX_DELAY_MS) {
+      timers.push(setTimeout(() => schedule(expiresAt), MAX_DELAY_MS));
+      return;
+    }
+
+    timers.push(
+      setTimeout(
+        () => void renewSession(),
+        Math.max(0, remaining - RENEW_BEFORE_MS)
+      ),
+      setTimeout(
+        () => useAuthStore.getState().expireSession(),
+        Math.max(0, remaining)
+      )
+    );
+  };
+
+  schedule(useAuthStore.getState().expiresAt);
+  useAuthStore.subscribe((state, prev) => {
+    if (state.expiresAt !== prev.expiresAt) schedule(state.expiresAt);
+  });
+
+  // Timers don't fire while the device sleeps, so check again on wake
+  document.addEventListener("visibilitychange", () => {
+    const { expiresAt, expireSession } = useAuthStore.getState();
+    if (expiresAt && expiresAt <= Date.now()) expireSession();
+  });
+
+  // The namespace outlives the token: unload the last account's data if
+  // its session didn't survive
+  const { user, isGuest } = useAuthStore.getState();
+  const expected = user?.id ?? (isGuest ? GUEST_NAMESPACE : null);
+  if (getNamespace() !== expected) void switchAccount(expected);
+}
@@ -8,7 +8,12 @@
  * - Maintain a list of all chat sessions
  * - Add newly created chats to the sidebar
  * - Rename chats dynamically based on user input
- * - Delete chats when requested by the user
+ * - Move chats to the trash and back; delete them for good when purged
+ *   (see `lib/trash`)
+ * - Remember which model each chat uses
+ * - Remember each chat's system prompt and generation parameters
+ * - Apply the server's chat list during backend sync (see `api/sync`)
+ * - Apply chats changed in other tabs (see `lib/tabSync`)
  *
  * Architecture Role:
  * - This store manages ONLY chat session metadata.
@@ -27,28 +32,52 @@
  * - id: Unique chat session identifier
  * - title: Display name of the chat
  * - createdAt: Timestamp for ordering and sorting
+ * - model: Provider + model chosen for this chat (restored on switch)
+ * - params: System prompt and sampling settings sent with every request
+ * - syncedAt: Last time the server confirmed the chat; unset until uploaded
+ * - deletedAt: When the chat was moved to the trash; unset otherwise
  *
  * Future Extensions:
- * - Backend synchronization
  * - Chat pinning / favorites
  * - Folder / category grouping
  * - Search & filtering
  */
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+import type { GenerationParams, ModelRef } from "@/lib/providers/types";
 
 export interface ChatSession {
   id: string;
   title: string;
   createdAt: number;
+  model?: ModelRef;
+  params?: GenerationParams;
+  // Where an imported chat came from, e.g. "chatgpt:<conversation id>",
+  // so importing the same export again can skip it
+  sourceId?: string;
+  syncedAt?: number;
+  deletedAt?: number;
 }
 
 interface ChatListState {
   chats: ChatSession[];
   addChat: (chat: ChatSession) => void;
   renameChat: (id: string, title: string) => void;
+  setChatModel: (id: string, model: ModelRef) => void;
+  setChatParams: (id: string, params: GenerationParams) => void;
+  // Removes chats for good; use `trashChats` for the user's "Delete"
   deleteChat: (id: string) => void;
+  trashChats: (ids: string[]) => void;
+  restoreChats: (ids: string[]) => void;
+  // Moves every chat to the trash
   clearAll: () => void;
+
+  markChatSynced: (id: string, at: number) => void;
+  // Replaces the list with the server's, keeping chats not uploaded yet
+  mergeRemoteChats: (remote: ChatSession[]) => void;
+  // Adds or replaces the given chats, leaving all others alone
+  upsertChats: (chats: ChatSession[]) => void;
 }
 
 export const useChatListStore = create<ChatListState>()(
@@ -67,16 +96,87 @@ export const useChatListStore = create<ChatListState>()(
             c.id === id ? { ...c, title } : c
           ),
         })),
-        clearAll: () => set({ chats: [] }),
+
+      setChatModel: (id, model) =>
+        set((state) => ({
+          chats: state.chats.map((c) =>
+            c.id === id ? { ...c, model } : c
+          ),
+        })),
+
+      setChatParams: (id, params) =>
+        set((state) => ({
+          chats: state.chats.map((c) =>
+            c.id === id ? { ...c, params } : c
+          ),
+        })),
+
+        clearAll: () =>
+          set((state) => ({
+            chats: state.chats.map((c) =>
+              c.deletedAt ? c : { ...c, deletedAt: Date.now() }
+            ),
+          })),
+
+      trashChats: (ids) =>
+        set((state) => ({
+          chats: state.chats.map((c) =>
+            ids.includes(c.id) && !c.deletedAt
+              ? { ...c, deletedAt: Date.now() }
+              : c
+          ),
+        })),
+
+      restoreChats: (ids) =>
+        set((state) => ({
+          chats: state.chats.map((c) => {
+            if (!ids.includes(c.id) || !c.deletedAt) return c;
+            const restored = { ...c };
+            delete restored.deletedAt;
+            return restored;
+          }),
+        })),
 
       deleteChat: (id) =>
         set((state) => ({
           chats: state.chats.filter((c) => c.id !== id),
         })),
+
+      markChatSynced: (id, at) =>
+        set((state) => ({
+          chats: state.chats.map((c) =>
+            c.id === id ? { ...c, syncedAt: at } : c
+          ),
+        })),
+
+      mergeRemoteChats: (remote) =>
+        set((state) => {
+          const remoteIds = new Set(remote.map((c) => c.id));
+          const localOnly = state.chats.filter(
+            (c) => !remoteIds.has(c.id) && !c.syncedAt
+          );
+
+          return {
+            chats: [...localOnly, ...remote].sort(
+              (a, b) => b.createdAt - a.createdAt
+            ),
+          };
+        }),
+
+      upsertChats: (chats) =>
+        set((state) => {
+          const byId = new Map(state.chats.map((c) => [c.id, c]));
+          for (const chat of chats) byId.set(chat.id, chat);
+
+          return {
+            chats: [...byId.values()].sort((a, b) => b.createdAt - a.createdAt),
+          };
+        }),
     }),
     
     {
-      name: "chat-list-store", // localStorage key
+      name: "chat-list-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
     }
   )
 );
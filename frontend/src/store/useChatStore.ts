@@ -8,9 +8,15 @@
  * - Track the currently active chat session (activeChatId)
  * - Store and manage all messages for the active chat
  * - Handle creation of new chats
- * - Reset messages when switching chats
+ * - Load a chat's messages on demand when it is opened and evict the
+ *   least recently used chats from memory
  * - Append, update, and clear chat messages
+ * - Keep alternate versions of regenerated assistant replies
+ * - Fork the conversation when a message is edited (branching)
  * - Automatically rename new chats based on the first user message
+ * - Merge messages pulled from the server during backend sync
+ * - Merge messages changed in other tabs of the app
+ * - Add imported chats
  *
  * Architecture Role:
  * - This store controls ONLY the currently active conversation.
@@ -18,6 +24,19 @@
  * - This separation prevents unnecessary UI re-renders and ensures
  *   smooth streaming performance.
  *
+ * Data Model:
+ * - Each chat is a `ChatThread`: a tree of messages (see `lib/messageTree`).
+ * - Only the active path is rendered and sent to the model; older
+ *   branches stay browsable through the branch switcher.
+ * - Persisted to IndexedDB, one record per chat and per message
+ *   (see `lib/chatStorage`), so streaming rewrites one small record.
+ * - `messagesByChatId` holds only the loaded chats: the active one plus
+ *   recently used ones up to `MESSAGE_BUDGET` messages. A missing entry
+ *   means "not loaded", not "empty".
+ * - Persisted state is versioned; version 0 stored flat message arrays
+ *   and is migrated to single-branch threads on load. Versions 0 and 1
+ *   lived in localStorage and are imported into IndexedDB once.
+ *
  * UX Features Enabled:
  * - ChatGPT-style "New Chat" creation
  * - Automatic sidebar title update after first user message
@@ -25,32 +44,202 @@
  * - Clean message lifecycle management
  *
  * Future Extensions:
- * - Streaming token updates
- * - Backend persistence synchronization
  * - Message-level metadata (tokens, latency, feedback, etc.)
  */
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { Message } from "../types/chat";
-import { useChatListStore } from "./useChatListStore";
+import { createChatStorage, type PersistedChats } from "@/lib/chatStorage";
+import type { ChatThread, Message, MessageNode } from "../types/chat";
+import {
+  appendMessage,
+  emptyThread,
+  getLeafId,
+  selectNode,
+  sortParentsFirst,
+  threadFromMessages,
+  updateNode,
+} from "@/lib/messageTree";
+import { useChatListStore, type ChatSession } from "./useChatListStore";
+import { useSettingsStore } from "./useSettingsStore";
+import { useUIStore } from "./useUIStore";
+import {
+  clearAttachmentBlobs,
+  deleteAttachmentBlobs,
+} from "@/lib/attachments";
+
+/**
+ * Writes the message's visible content back into its selected version,
+ * so streaming into a regenerated reply updates that version.
+ */
+function syncVersion(msg: MessageNode): MessageNode {
+  if (!msg.versions || msg.versionIndex === undefined) return msg;
+
+  const versions = [...msg.versions];
+  versions[msg.versionIndex] = {
+    ...versions[msg.versionIndex],
+    content: msg.content,
+    interrupted: msg.interrupted,
+  };
+  return { ...msg, versions };
+}
+
+// Messages kept in memory across loaded chats before evicting old ones
+const MESSAGE_BUDGET = 2_000;
+
+const storage = createChatStorage();
+
+// Loaded chats, most recently used first
+let recentChatIds: string[] = [];
+
+// Bumped by `unloadAll`; loads started before it are dropped
+let generation = 0;
+
+function touch(chatId: string) {
+  recentChatIds = [chatId, ...recentChatIds.filter((id) => id !== chatId)];
+}
 
 interface ChatState {
   activeChatId: string | null;
-  messagesByChatId: Record<string, Message[]>;
+  messagesByChatId: Record<string, ChatThread>;
+  // Chat whose messages are being read from storage
+  loadingChatId: string | null;
 
   createNewChat: () => string;
   setActiveChat: (id: string) => void;
+  // Leaves the active chat if it is one of `ids` (they stay loaded)
+  closeChats: (ids: string[]) => void;
+  // Brings a chat's messages into memory (no-op when already loaded)
+  loadChat: (id: string) => Promise<void>;
 
-  addMessage: (chatId: string | null, message: Message) => void;
+  // Appends under `parentId`, or after the active path's last message
+  addMessage: (
+    chatId: string | null,
+    message: Message,
+    parentId?: string | null
+  ) => void;
   updateMessage: (chatId: string | null, id: string, content: string) => void;
+  patchMessage: (
+    chatId: string,
+    id: string,
+    patch: Partial<Omit<Message, "id">>
+  ) => void;
+
+  // Starts an empty version on a message and selects it
+  addMessageVersion: (chatId: string, id: string) => void;
+  selectMessageVersion: (chatId: string, id: string, index: number) => void;
+
+  // Forks a new branch next to `id` with the edited content; returns its id
+  editMessage: (chatId: string, id: string, content: string) => string | null;
+  // Makes `id` the visible branch at its fork
+  selectBranch: (chatId: string, id: string) => void;
+
   clearChat: (chatId: string) => void;
   clearAllChats: () => void;
+  // Forgets every loaded chat but keeps them stored (switching accounts);
+  // resolves once their pending writes are saved
+  unloadAll: () => Promise<void>;
+
+  // Adds unknown messages under their parents and refreshes known ones;
+  // `messages` must list parents before children
+  mergeRemoteMessages: (
+    chatId: string,
+    messages: (Message & { parentId: string | null })[]
+  ) => void;
+
+  // Applies another tab's changes to a loaded chat, node by node;
+  // this tab keeps its own branch selection
+  mergeThreadChanges: (chatId: string, changes: ThreadChanges) => void;
+
+  // Adds or overwrites chats along with their messages (imports and
+  // restored backups); each `thread` replaces what is stored
+  importChats: (chats: { chat: ChatSession; thread: ChatThread }[]) => void;
+}
+
+export interface ThreadChanges {
+  nodes: MessageNode[];
+  removedIds: string[];
+  rootIds: string[];
+}
+
+/**
+ * Applies `update` to one chat's thread; no-op if the chat is gone
+ * (e.g. deleted while a reply was still streaming).
+ */
+function withThread(
+  state: ChatState,
+  chatId: string,
+  update: (thread: ChatThread) => ChatThread
+): Partial<ChatState> {
+  const thread = state.messagesByChatId[chatId];
+  if (!thread) return state;
+
+  return {
+    messagesByChatId: {
+      ...state.messagesByChatId,
+      [chatId]: update(thread),
+    },
+  };
+}
+
+/**
+ * Drops least recently used chats from memory until the loaded messages
+ * fit the budget. The active and the streaming chat always stay.
+ */
+function evict(
+  threads: Record<string, ChatThread>,
+  activeChatId: string | null
+): Record<string, ChatThread> {
+  const keep = new Set([activeChatId, useUIStore.getState().streamingChatId]);
+  const loaded = Object.keys(threads);
+  let total = loaded.reduce(
+    (sum, id) => sum + Object.keys(threads[id].nodes).length,
+    0
+  );
+  if (total <= MESSAGE_BUDGET) return threads;
+
+  // Oldest first; chats never touched count as the oldest
+  const order = [
+    ...loaded.filter((id) => !recentChatIds.includes(id)),
+    ...[...recentChatIds].reverse(),
+  ];
+  const remaining = { ...threads };
+
+  for (const id of order) {
+    if (total <= MESSAGE_BUDGET) break;
+    if (keep.has(id) || !remaining[id]) continue;
+
+    total -= Object.keys(remaining[id].nodes).length;
+    delete remaining[id];
+    recentChatIds = recentChatIds.filter((recent) => recent !== id);
+  }
+
+  return remaining;
+}
+
+/**
+ * Deletes a chat's records and its attachment bytes, which live outside
+ * this store. Unloaded chats are read first to find their attachments.
+ */
+async function deleteStoredChat(chatId: string, loaded?: ChatThread) {
+  try {
+    const thread = loaded ?? (await storage.loadThread(chatId));
+    const blobKeys = Object.values(thread?.nodes ?? {}).flatMap(
+      (m) => m.attachments?.map((a) => a.blobKey) ?? []
+    );
+
+    await storage.deleteThreads([chatId]);
+    await deleteAttachmentBlobs(blobKeys);
+  } catch (err) {
+    console.error("Deleting chat failed", err);
+  }
 }
+
 export const useChatStore = create<ChatState>()(
   persist(
     (set, get) => ({
       activeChatId: null,
       messagesByChatId: {},
+      loadingChatId: null,
 
       createNewChat: () => {
         const id = crypto.randomUUID();
@@ -59,94 +248,412 @@ export const useChatStore = create<ChatState>()(
           id,
           title: "New Chat",
           createdAt: Date.now(),
+          model: useSettingsStore.getState().defaultModel,
+          params: useSettingsStore.getState().defaultParams,
         });
 
+        touch(id);
         set((state) => ({
           activeChatId: id,
           messagesByChatId: {
             ...state.messagesByChatId,
-            [id]: [],
+            [id]: emptyThread(),
           },
         }));
 
         return id;
       },
 
-      setActiveChat: (id) =>
+      setActiveChat: (id) => {
+        // Leaving a chat cancels its in-flight reply instead of leaking it
+        if (get().activeChatId !== id) useUIStore.getState().stopStreaming();
+
         set((state) => ({
           activeChatId: id,
-          messagesByChatId: {
-            ...state.messagesByChatId,
-            [id]: state.messagesByChatId[id] || [],
-          },
-        })),
+          loadingChatId: state.messagesByChatId[id] ? state.loadingChatId : id,
+        }));
+        void get().loadChat(id);
+      },
 
-      addMessage: (chatId, message) =>
-        set((state) => {
-          let id = chatId;
+      closeChats: (ids) => {
+        const { activeChatId } = get();
+        if (activeChatId && ids.includes(activeChatId)) {
+          useUIStore.getState().stopStreaming(activeChatId);
+          set({ activeChatId: null });
+        }
+      },
 
-          // 🧠 Auto-create chat if none exists
-          if (!id) {
-            id = crypto.randomUUID();
+      loadChat: async (id) => {
+        if (get().messagesByChatId[id]) {
+          touch(id);
+          return;
+        }
 
-            useChatListStore.getState().addChat({
-              id,
-              title: "New Chat",
-              createdAt: Date.now(),
-            });
-          }
+        const started = generation;
+        let thread: ChatThread | null;
+        try {
+          thread = await storage.loadThread(id);
+          // Read from the account that was just left
+          if (generation !== started) return;
+        } catch (err) {
+          // Leave it unloaded: an empty stand-in would overwrite the records
+          console.error("Loading chat failed", err);
+          set((state) => ({
+            loadingChatId:
+              state.loadingChatId === id ? null : state.loadingChatId,
+          }));
+          return;
+        }
+
+        touch(id);
+        set((state) => ({
+          loadingChatId:
+            state.loadingChatId === id ? null : state.loadingChatId,
+          messagesByChatId: evict(
+            {
+              ...state.messagesByChatId,
+              // Never stored means a brand-new (or remote-only) chat
+              [id]: state.messagesByChatId[id] ?? thread ?? emptyThread(),
+            },
+            state.activeChatId
+          ),
+        }));
+      },
 
-          const messages = state.messagesByChatId[id] || [];
+      addMessage: (chatId, message, parentId) => {
+        // 🧠 Auto-create chat if none exists
+        const id = chatId ?? get().createNewChat();
+
+        set((state) => {
+          const thread = state.messagesByChatId[id] || emptyThread();
 
           // Auto rename on first user message
-          if (message.role === "user" && messages.length === 0) {
+          if (message.role === "user" && thread.rootIds.length === 0) {
             useChatListStore
               .getState()
-              .renameChat(id, message.content.slice(0, 40));
+              .renameChat(
+                id,
+                message.content.slice(0, 40) ||
+                  message.attachments?.[0]?.name ||
+                  "New Chat"
+              );
           }
 
           return {
             activeChatId: id,
             messagesByChatId: {
               ...state.messagesByChatId,
-              [id]: [...messages, message],
+              [id]: appendMessage(
+                thread,
+                message,
+                parentId === undefined ? getLeafId(thread) : parentId
+              ),
             },
           };
-        }),
+        });
+      },
 
       updateMessage: (chatId, id, content) =>
         set((state) => {
           if (!chatId) return state;
 
-          return {
-            messagesByChatId: {
-              ...state.messagesByChatId,
-              [chatId]: state.messagesByChatId[chatId].map((msg) =>
-                msg.id === id ? { ...msg, content } : msg
-              ),
-            },
-          };
+          return withThread(state, chatId, (thread) =>
+            updateNode(thread, id, (msg) => syncVersion({ ...msg, content }))
+          );
         }),
 
+      patchMessage: (chatId, id, patch) =>
+        set((state) =>
+          withThread(state, chatId, (thread) =>
+            updateNode(thread, id, (msg) => syncVersion({ ...msg, ...patch }))
+          )
+        ),
+
+      addMessageVersion: (chatId, id) =>
+        set((state) =>
+          withThread(state, chatId, (thread) =>
+            updateNode(thread, id, (msg) => {
+              const versions = msg.versions ?? [
+                {
+                  content: msg.content,
+                  timestamp: msg.timestamp,
+                  interrupted: msg.interrupted,
+                },
+              ];
+              const timestamp = new Date();
+
+              return {
+                ...msg,
+                content: "",
+                interrupted: undefined,
+                timestamp,
+                versions: [...versions, { content: "", timestamp }],
+                versionIndex: versions.length,
+              };
+            })
+          )
+        ),
+
+      selectMessageVersion: (chatId, id, index) =>
+        set((state) =>
+          withThread(state, chatId, (thread) =>
+            updateNode(thread, id, (msg) => {
+              const version = msg.versions?.[index];
+              if (!version) return msg;
+
+              return {
+                ...msg,
+                content: version.content,
+                interrupted: version.interrupted,
+                timestamp: version.timestamp,
+                versionIndex: index,
+              };
+            })
+          )
+        ),
+
+      editMessage: (chatId, id, content) => {
+        const original = get().messagesByChatId[chatId]?.nodes[id];
+        if (!original) return null;
+
+        const branchId = crypto.randomUUID();
+
+        set((state) =>
+          withThread(state, chatId, (thread) =>
+            appendMessage(
+              thread,
+              {
+                id: branchId,
+                role: original.role,
+                content,
+                timestamp: new Date(),
+                attachments: original.attachments,
+              },
+              original.parentId
+            )
+          )
+        );
+
+        return branchId;
+      },
+
+      selectBranch: (chatId, id) =>
+        set((state) =>
+          withThread(state, chatId, (thread) => selectNode(thread, id))
+        ),
+
       clearChat: (chatId) =>
         set((state) => {
+          useUIStore.getState().stopStreaming(chatId);
+
+          void deleteStoredChat(chatId, state.messagesByChatId[chatId]);
+
           const copy = { ...state.messagesByChatId };
           delete copy[chatId];
+          recentChatIds = recentChatIds.filter((id) => id !== chatId);
 
           return {
-            activeChatId: null,
+            activeChatId:
+              state.activeChatId === chatId ? null : state.activeChatId,
             messagesByChatId: copy,
           };
         }),
-        clearAllChats: () =>
+        clearAllChats: () => {
+          useUIStore.getState().stopStreaming();
+          void clearAttachmentBlobs();
+          recentChatIds = [];
+          void storage.clearThreads();
           set({
             activeChatId: null,
             messagesByChatId: {},
-          }),
+          });
+        },
+
+      unloadAll: () => {
+        useUIStore.getState().stopStreaming();
+        generation += 1;
+        recentChatIds = [];
+        const saved = storage.reset();
+        set({ activeChatId: null, messagesByChatId: {}, loadingChatId: null });
+        return saved;
+      },
+
+      mergeRemoteMessages: (chatId, messages) =>
+        set((state) => {
+          // Merging into an unloaded chat would overwrite its records
+          let thread = state.messagesByChatId[chatId];
+          if (!thread) return state;
+
+          // Server order (by time) can put a child first, e.g. below a
+          // reply that was regenerated later
+          for (const { parentId, ...message } of sortParentsFirst(messages)) {
+            const local = thread.nodes[message.id];
+
+            if (!local) {
+              // Orphans (parent deleted or not pulled yet) wait for a later pull
+              if (parentId && !thread.nodes[parentId]) continue;
+              thread = appendMessage(thread, message, parentId);
+              continue;
+            }
+
+            const changed =
+              local.content !== message.content ||
+              local.interrupted !== message.interrupted ||
+              local.versionIndex !== message.versionIndex ||
+              local.versions?.length !== message.versions?.length;
+
+            if (changed) {
+              thread = updateNode(thread, message.id, (msg) => ({
+                ...msg,
+                ...message,
+              }));
+            }
+          }
+
+          if (thread === state.messagesByChatId[chatId]) return state;
+
+          return {
+            messagesByChatId: {
+              ...state.messagesByChatId,
+              [chatId]: thread,
+            },
+          };
+        }),
+
+      mergeThreadChanges: (chatId, { nodes: changed, removedIds, rootIds }) =>
+        set((state) => {
+          const thread = state.messagesByChatId[chatId];
+          if (!thread) return state;
+
+          const removed = new Set(removedIds);
+          const keep = (id?: string) => !!id && !removed.has(id);
+          const union = (a: string[], b: string[]) =>
+            [...new Set([...a, ...b])].filter(keep);
+
+          const nodes: Record<string, MessageNode> = {};
+          for (const node of Object.values(thread.nodes)) {
+            if (keep(node.id)) nodes[node.id] = node;
+          }
+
+          for (const node of changed) {
+            const local = nodes[node.id];
+            nodes[node.id] = local
+              ? {
+                  ...node,
+                  childIds: union(local.childIds, node.childIds),
+                  activeChildId: keep(local.activeChildId)
+                    ? local.activeChildId
+                    : node.activeChildId,
+                }
+              : node;
+          }
+
+          return {
+            messagesByChatId: {
+              ...state.messagesByChatId,
+              [chatId]: {
+                nodes,
+                rootIds: union(thread.rootIds, rootIds),
+                activeRootId: keep(thread.activeRootId)
+                  ? thread.activeRootId
+                  : rootIds[rootIds.length - 1],
+              },
+            },
+          };
+        }),
+
+      importChats: (chats) => {
+        // Empty stand-ins for unloaded chats, so the threads below count
+        // as changes (synced, broadcast) rather than as loads
+        set((state) => ({
+          messagesByChatId: {
+            ...state.messagesByChatId,
+            ...Object.fromEntries(
+              chats
+                .filter((c) => !state.messagesByChatId[c.chat.id])
+                .map((c) => [c.chat.id, emptyThread()])
+            ),
+          },
+        }));
+        // Listed before their messages, so the server has the chat first
+        useChatListStore.getState().upsertChats(chats.map((c) => c.chat));
+        set((state) => ({
+          messagesByChatId: {
+            ...state.messagesByChatId,
+            ...Object.fromEntries(chats.map((c) => [c.chat.id, c.thread])),
+          },
+        }));
+
+        // Storage has queued the writes; the threads need not stay loaded
+        set((state) => ({
+          messagesByChatId: evict(state.messagesByChatId, state.activeChatId),
+        }));
+      },
     }),
     
     {
       name: "chat-message-store",
+      version: 2,
+      storage,
+
+      partialize: (state): PersistedChats => ({
+        activeChatId: state.activeChatId,
+        messagesByChatId: state.messagesByChatId,
+      }),
+
+      // Hydration is async: keep the chat the route already selected and
+      // let stored threads replace the empty placeholders made meanwhile
+      onRehydrateStorage: () => (state) => {
+        if (state?.activeChatId) void state.loadChat(state.activeChatId);
+      },
+
+      merge: (persisted, current) => {
+        const stored = persisted as PersistedChats | undefined;
+
+        return {
+          ...current,
+          activeChatId: current.activeChatId ?? stored?.activeChatId ?? null,
+          messagesByChatId: {
+            ...current.messagesByChatId,
+            ...stored?.messagesByChatId,
+          },
+        };
+      },
+
+      migrate: (persisted, version) => {
+        const state = persisted as {
+          activeChatId: string | null;
+          messagesByChatId: Record<string, unknown>;
+        };
+
+        // v0 → v1: flat message arrays become single-branch threads
+        if (version < 1) {
+          state.messagesByChatId = Object.fromEntries(
+            Object.entries(state.messagesByChatId ?? {}).map(
+              ([chatId, messages]) => [
+                chatId,
+                threadFromMessages(messages as Message[]),
+              ]
+            )
+          );
+        }
+
+        // v1 → v2: moved from localStorage to IndexedDB records; the shape
+        // is unchanged, and the write after migrating performs the import
+
+        return state as PersistedChats;
+      },
     }
   )
 );
+
+/**
+ * A chat's messages, from memory or straight from storage without
+ * loading them into the store.
+ */
+export async function readChatThread(chatId: string) {
+  return (
+    useChatStore.getState().messagesByChatId[chatId] ??
+    (await storage.loadThread(chatId))
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * useDraftStore.ts
+ * -----------------
+ * The message being typed in the composer, kept across reloads.
+ *
+ * Responsibilities:
+ * - Persist the composer text as it is typed, so a reload or a session
+ *   that ends (logout, expired token) doesn't lose it
+ * - Keep it per account; it comes back when the same user signs in
+ *
+ * Attachments are not kept: `File`s can't be stored in localStorage.
+ */
+
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+
+interface DraftState {
+  text: string;
+  setText: (text: string) => void;
+}
+
+export const useDraftStore = create<DraftState>()(
+  persist(
+    (set) => ({
+      text: "",
+      setText: (text) => set({ text }),
+    }),
+
+    {
+      name: "draft-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
+    }
+  )
+);
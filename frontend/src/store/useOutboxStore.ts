@@ -0,0 +1,123 @@
+/**
+ * useOutboxStore.ts
+ * -----------------
+ * Persisted queue of writes that still have to reach the sync backend
+ * or the model server.
+ *
+ * Responsibilities:
+ * - Keep queued operations across reloads and offline periods
+ * - Track attempts, the next retry time and the last error of each entry
+ * - Coalesce repeated writes to the same chat or message
+ *
+ * Architecture Role:
+ * - State only; `api/outbox` decides when entries run and retries them.
+ * - Every operation targets client-generated ids (chat, message, reply),
+ *   so running one twice has the same effect as running it once.
+ */
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+import type { ChatDto, ChatPatch, MessageDto } from "@/api/types";
+
+export type OutboxOp =
+  | { kind: "createChat"; chatId: string; chat: Omit<ChatDto, "updatedAt"> }
+  | { kind: "updateChat"; chatId: string; patch: ChatPatch }
+  | { kind: "deleteChat"; chatId: string }
+  | { kind: "putMessage"; chatId: string; message: MessageDto }
+  // Model reply `replyId` to the user message `messageId`
+  | { kind: "reply"; chatId: string; messageId: string; replyId: string };
+
+export interface OutboxEntry {
+  id: string;
+  op: OutboxOp;
+  createdAt: number;
+
+  // "failed" entries wait for a manual retry or the next `online` event
+  status: "pending" | "failed";
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+
+  enqueue: (op: OutboxOp) => string;
+  // Swaps the operation of a queued entry (newer write to the same target)
+  replaceOp: (id: string, op: OutboxOp) => void;
+  markAttempt: (
+    id: string,
+    result: { error: string; nextAttemptAt: number; failed: boolean }
+  ) => void;
+  remove: (id: string) => void;
+
+  // Makes entries due now; without `ids`, every failed entry
+  retry: (ids?: string[]) => void;
+}
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set) => ({
+      entries: [],
+
+      enqueue: (op) => {
+        const id = crypto.randomUUID();
+
+        set((state) => ({
+          entries: [
+            ...state.entries,
+            {
+              id,
+              op,
+              createdAt: Date.now(),
+              status: "pending",
+              attempts: 0,
+              nextAttemptAt: 0,
+            },
+          ],
+        }));
+
+        return id;
+      },
+
+      replaceOp: (id, op) =>
+        set((state) => ({
+          entries: state.entries.map((e) => (e.id === id ? { ...e, op } : e)),
+        })),
+
+      markAttempt: (id, { error, nextAttemptAt, failed }) =>
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            e.id === id
+              ? {
+                  ...e,
+                  attempts: e.attempts + 1,
+                  lastError: error,
+                  nextAttemptAt,
+                  status: failed ? "failed" : "pending",
+                }
+              : e
+          ),
+        })),
+
+      remove: (id) =>
+        set((state) => ({
+          entries: state.entries.filter((e) => e.id !== id),
+        })),
+
+      retry: (ids) =>
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            (ids ? ids.includes(e.id) : e.status === "failed")
+              ? { ...e, status: "pending", attempts: 0, nextAttemptAt: 0 }
+              : e
+          ),
+        })),
+    }),
+
+    {
+      name: "outbox-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
+    }
+  )
+);
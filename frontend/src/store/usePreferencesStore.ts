@@ -0,0 +1,65 @@
+/**
+ * usePreferencesStore.ts
+ * ----------------------
+ * Persisted look-and-feel preferences, edited on the settings page.
+ *
+ * Responsibilities:
+ * - Remember the theme (light, dark or following the system)
+ * - Remember the text size of the whole UI
+ * - Decide whether Enter or Ctrl/⌘+Enter sends a message
+ *
+ * Applied app-wide by `useApplyPreferences`; like the other stores it
+ * is kept per account.
+ */
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+
+export type ThemePreference = "light" | "dark" | "system";
+export type FontSize = "small" | "medium" | "large";
+
+// Root font size; every rem-based size in the UI scales with it
+export const FONT_SIZE_PX: Record<FontSize, number> = {
+  small: 14,
+  medium: 16,
+  large: 18,
+};
+
+const THEMES: ThemePreference[] = ["light", "dark", "system"];
+
+// Carry over the theme picked before preferences existed (next-themes'
+// own key)
+function initialTheme(): ThemePreference {
+  const saved = localStorage.getItem("theme");
+  return THEMES.find((t) => t === saved) ?? "system";
+}
+
+interface PreferencesState {
+  theme: ThemePreference;
+  fontSize: FontSize;
+  // false: Enter adds a newline and Ctrl/⌘+Enter sends
+  sendWithEnter: boolean;
+
+  setTheme: (theme: ThemePreference) => void;
+  setFontSize: (fontSize: FontSize) => void;
+  setSendWithEnter: (sendWithEnter: boolean) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      theme: initialTheme(),
+      fontSize: "medium",
+      sendWithEnter: true,
+
+      setTheme: (theme) => set({ theme }),
+      setFontSize: (fontSize) => set({ fontSize }),
+      setSendWithEnter: (sendWithEnter) => set({ sendWithEnter }),
+    }),
+
+    {
+      name: "preferences-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
+    }
+  )
+);
@@ -0,0 +1,65 @@
+/**
+ * usePromptTemplateStore.ts
+ * -------------------------
+ * Reusable prompts, inserted into the composer from its template menu.
+ *
+ * Responsibilities:
+ * - Keep the user's prompt templates (a title and the text to insert)
+ * - Add, edit and delete them from the settings page
+ *
+ * Kept per account like the other stores, and part of the workspace
+ * backup (see `lib/backup`).
+ */
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  text: string;
+}
+
+interface PromptTemplateState {
+  templates: PromptTemplate[];
+
+  addTemplate: (template: Omit<PromptTemplate, "id">) => string;
+  updateTemplate: (
+    id: string,
+    patch: Partial<Omit<PromptTemplate, "id">>
+  ) => void;
+  deleteTemplate: (id: string) => void;
+}
+
+export const usePromptTemplateStore = create<PromptTemplateState>()(
+  persist(
+    (set) => ({
+      templates: [],
+
+      addTemplate: (template) => {
+        const id = crypto.randomUUID();
+        set((state) => ({
+          templates: [...state.templates, { ...template, id }],
+        }));
+        return id;
+      },
+
+      updateTemplate: (id, patch) =>
+        set((state) => ({
+          templates: state.templates.map((t) =>
+            t.id === id ? { ...t, ...patch } : t
+          ),
+        })),
+
+      deleteTemplate: (id) =>
+        set((state) => ({
+          templates: state.templates.filter((t) => t.id !== id),
+        })),
+    }),
+
+    {
+      name: "prompt-template-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
+    }
+  )
+);
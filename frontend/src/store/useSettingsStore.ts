@@ -0,0 +1,123 @@
+/**
+ * useSettingsStore.ts
+ * -------------------
+ * Persisted user settings that are not tied to a single chat.
+ *
+ * Responsibilities:
+ * - Remember the default model that new chats start with
+ * - Hold the default generation profile (system prompt, sampling
+ *   parameters) that new chats inherit
+ * - Limit the size of uploaded images (larger ones are downscaled)
+ * - Decide how long deleted chats stay in the trash
+ * - Hold the connection details for OpenAI-compatible servers
+ *   (OpenAI, Ollama, llama.cpp, vLLM, ...)
+ *
+ * Defaults:
+ * - Initial values come from `VITE_OPENAI_*` env vars so a deployment
+ *   can be preconfigured; anything edited in the settings UI wins.
+ * - Without `VITE_OPENAI_BASE_URL` the offline mock provider is used.
+ */
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { scopedLocalStorage } from "@/lib/namespace";
+import {
+  DEFAULT_GENERATION_PARAMS,
+  type GenerationParams,
+  type ModelRef,
+} from "@/lib/providers/types";
+import { MOCK_MODEL_ID } from "@/lib/providers/mock";
+import type { ImageLimits } from "@/lib/images";
+
+export interface OpenAIConfig {
+  // Base URL including the API version, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey: string;
+}
+
+interface SettingsState {
+  // Model for new chats; each chat keeps its own choice afterwards
+  defaultModel: ModelRef;
+  openai: OpenAIConfig;
+
+  // Copied into each new chat, which can then diverge
+  defaultParams: GenerationParams;
+
+  // Images above either limit are downscaled before upload
+  imageLimits: ImageLimits;
+
+  // Chats in the trash longer than this are deleted for good
+  trashRetentionDays: number;
+
+  setDefaultModel: (model: ModelRef) => void;
+  setDefaultParams: (params: GenerationParams) => void;
+  updateImageLimits: (patch: Partial<ImageLimits>) => void;
+  updateOpenAI: (patch: Partial<OpenAIConfig>) => void;
+  setTrashRetentionDays: (days: number) => void;
+}
+
+const env = import.meta.env;
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      defaultModel: env.VITE_OPENAI_BASE_URL
+        ? { providerId: "openai", modelId: env.VITE_OPENAI_MODEL || "llama3.2" }
+        : { providerId: "mock", modelId: MOCK_MODEL_ID },
+      openai: {
+        baseUrl: env.VITE_OPENAI_BASE_URL || "",
+        apiKey: env.VITE_OPENAI_API_KEY || "",
+      },
+      defaultParams: DEFAULT_GENERATION_PARAMS,
+      imageLimits: {
+        maxDimension: Number(env.VITE_IMAGE_MAX_DIMENSION) || 2048,
+        maxBytes: 4 * 1024 * 1024,
+      },
+      trashRetentionDays: 30,
+
+      setDefaultModel: (model) => set({ defaultModel: model }),
+      setDefaultParams: (params) => set({ defaultParams: params }),
+
+      updateImageLimits: (patch) =>
+        set((state) => ({
+          imageLimits: { ...state.imageLimits, ...patch },
+        })),
+
+      updateOpenAI: (patch) =>
+        set((state) => ({
+          openai: { ...state.openai, ...patch },
+        })),
+
+      setTrashRetentionDays: (days) => set({ trashRetentionDays: days }),
+    }),
+
+    {
+      name: "settings-store", // localStorage key, per account
+      storage: createJSONStorage(() => scopedLocalStorage),
+      version: 1,
+
+      migrate: (persisted, version) => {
+        const state = persisted as Record<string, unknown>;
+
+        // v0 → v1: provider + model fields became `defaultModel`
+        if (version < 1) {
+          const { providerId, openai } = state as {
+            providerId?: string;
+            openai?: OpenAIConfig & { model?: string };
+          };
+
+          state.defaultModel =
+            providerId === "openai"
+              ? { providerId, modelId: openai?.model || "llama3.2" }
+              : { providerId: "mock", modelId: MOCK_MODEL_ID };
+          state.openai = {
+            baseUrl: openai?.baseUrl ?? "",
+            apiKey: openai?.apiKey ?? "",
+          };
+          delete state.providerId;
+        }
+
+        return state as unknown as SettingsState;
+      },
+    }
+  )
+);
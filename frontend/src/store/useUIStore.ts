@@ -7,6 +7,10 @@
  * - Track whether an AI response is currently streaming
  * - Control UI locking during streaming (disable input, buttons, etc.)
  * - Provide a centralized state for real-time UI feedback
+ * - Own the AbortController of the in-flight generation so any part
+ *   of the app (Stop button, chat switching, logout) can cancel it
+ * - Know which chats are streaming in other tabs (see `lib/tabSync`)
+ * - Show one short-lived toast at a time, optionally with an action
  *
  * Why this store exists:
  * - Keeps streaming state separate from chat data
@@ -19,21 +23,89 @@
  * - Block multiple submissions during streaming
  */
 import { create } from "zustand";
+import type { LocalNamespace } from "@/lib/namespace";
+
+export interface Toast {
+  id: string;
+  message: string;
+  // e.g. "Undo"; clicking it runs `onAction` and dismisses the toast
+  action?: { label: string; onAction: () => void };
+  // How long it stays up; defaults to a few seconds
+  durationMs?: number;
+}
 
 interface UIState {
   // Indicates whether AI response streaming is in progress
   isStreaming: boolean;
   setStreaming: (status: boolean) => void;
 
+  // Chat and controller of the in-flight generation (null when idle)
+  streamingChatId: string | null;
+  streamController: AbortController | null;
+  setStreamController: (
+    chatId: string | null,
+    controller: AbortController | null
+  ) => void;
+
+  // Aborts the in-flight generation; with `chatId`, only if it targets that chat
+  stopStreaming: (chatId?: string) => void;
+
+  // Chats another tab is currently streaming into
+  remoteStreamingChatIds: string[];
+  setRemoteStreaming: (chatId: string, active: boolean) => void;
+
   // Controls visibility of the global search modal
   isSearchOpen: boolean;
   setSearchOpen: (open: boolean) => void;
+
+  // Controls visibility of the chat import dialog
+  isImportOpen: boolean;
+  setImportOpen: (open: boolean) => void;
+
+  // Whose chats are offered to the account that just signed in (see
+  // `lib/localChats`); undefined while the offer is closed
+  localChatsSource: LocalNamespace | undefined;
+  setLocalChatsSource: (source: LocalNamespace | undefined) => void;
+
+  // Replaces any toast on screen
+  toast: Toast | null;
+  showToast: (toast: Omit<Toast, "id">) => void;
+  dismissToast: (id: string) => void;
 }
 
-export const useUIStore = create<UIState>((set) => ({
+export const useUIStore = create<UIState>((set, get) => ({
   isStreaming: false,
   setStreaming: (status) => set({ isStreaming: status }),
 
+  streamingChatId: null,
+  streamController: null,
+  setStreamController: (chatId, controller) =>
+    set({ streamingChatId: chatId, streamController: controller }),
+
+  stopStreaming: (chatId) => {
+    const { streamingChatId, streamController } = get();
+    if (chatId && chatId !== streamingChatId) return;
+    streamController?.abort();
+  },
+
+  remoteStreamingChatIds: [],
+  setRemoteStreaming: (chatId, active) =>
+    set((state) => {
+      const others = state.remoteStreamingChatIds.filter((id) => id !== chatId);
+      return { remoteStreamingChatIds: active ? [...others, chatId] : others };
+    }),
+
   isSearchOpen: false,
   setSearchOpen: (open) => set({ isSearchOpen: open }),
+
+  isImportOpen: false,
+  setImportOpen: (open) => set({ isImportOpen: open }),
+
+  localChatsSource: undefined,
+  setLocalChatsSource: (source) => set({ localChatsSource: source }),
+
+  toast: null,
+  showToast: (toast) => set({ toast: { ...toast, id: crypto.randomUUID() } }),
+  dismissToast: (id) =>
+    set((state) => (state.toast?.id === id ? { toast: null } : state)),
 }));
@@ -1,6 +1,66 @@
+/**
+ * File sent with a message. Only metadata lives in the chat store;
+ * the bytes are in IndexedDB under `blobKey` (see `lib/attachments`).
+ */
+export interface Attachment {
+    id: string;
+    name: string;
+    mime: string;
+    size: number;
+    blobKey: string;
+
+    // Set for documents whose text was extracted in the browser;
+    // the text itself is stored next to the bytes in IndexedDB
+    extracted?: {
+        tokens: number;
+        truncated: boolean;
+    };
+}
+
+export interface MessageVersion {
+    content: string;
+    timestamp: Date;
+    interrupted?: boolean;
+}
+
 export interface Message {
     id: string;
     role: "user" | "assistant";
     content: string;
     timestamp: Date;
-}
\ No newline at end of file
+
+    attachments?: Attachment[];
+
+    // Set when generation was stopped before the reply finished; shown
+    // (and exported) as `INTERRUPTED_LABEL`
+    interrupted?: boolean;
+
+    // Alternate completions of a regenerated assistant reply.
+    // `content` and `interrupted` always mirror `versions[versionIndex]`,
+    // so the selected version is what later requests see.
+    versions?: MessageVersion[];
+    versionIndex?: number;
+}
+
+/**
+ * A message placed in a conversation tree. Editing a user message adds a
+ * sibling instead of overwriting it, so every edit starts a new branch.
+ */
+export interface MessageNode extends Message {
+    parentId: string | null;
+    childIds: string[];
+
+    // Child that continues the active path; defaults to the newest child
+    activeChildId?: string;
+}
+
+export interface ChatThread {
+    nodes: Record<string, MessageNode>;
+    rootIds: string[];
+
+    // Root that starts the active path; defaults to the newest root
+    activeRootId?: string;
+}
+
+// How an interrupted reply is labelled, on screen and in exports
+export const INTERRUPTED_LABEL = "Response interrupted";